@@ -35,6 +35,12 @@ export const AuditLog: React.FC<AuditLogProps> = ({ isOpen, onClose }) => {
         return "bg-orange-100 text-orange-800";
       case "CLEAR_ALL":
         return "bg-purple-100 text-purple-800";
+      case "ROLLBACK":
+        return "bg-yellow-100 text-yellow-800";
+      case "MERGE":
+        return "bg-teal-100 text-teal-800";
+      case "RESTORE":
+        return "bg-indigo-100 text-indigo-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -87,6 +93,9 @@ export const AuditLog: React.FC<AuditLogProps> = ({ isOpen, onClose }) => {
                 <option value="DELETE">Delete</option>
                 <option value="BULK_DELETE">Bulk Delete</option>
                 <option value="CLEAR_ALL">Clear All</option>
+                <option value="ROLLBACK">Rollback</option>
+                <option value="MERGE">Merge</option>
+                <option value="RESTORE">Restore</option>
               </select>
             </div>
             <div className="flex-1">
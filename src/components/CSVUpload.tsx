@@ -1,190 +1,198 @@
-import React, { useRef, useState } from "react";
-import { useUploadCSV, useDownloadErrorFile } from "../hooks/useCSVData";
-import { toast } from "sonner";
-import {
-  validateRequiredHeaders,
-  createMissingHeadersMessage,
-  getRequiredHeadersDisplay,
-  parseCSVData,
-  validateCSVDataRows,
-  createEmptyValuesMessage,
-} from "../utils/headerValidation";
+import React, { useEffect, useRef, useState } from "react";
+import { useDownloadErrorFile } from "../hooks/useCSVData";
+import { useMappingProfiles } from "../hooks/useMappingProfiles";
+import { UploadQueueItem, UploadQueueStatus } from "./upload/UploadQueueItem";
+import { UploadResponse } from "../services/api";
 import {
-  Upload,
-  Loader2,
-  CheckCircle,
-  XCircle,
-  Download,
-  AlertTriangle,
-} from "lucide-react";
-
-// CSV Safety Constants
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
-const ALLOWED_MIME_TYPES = [
-  "text/csv",
-  "application/csv",
-  "text/plain",
-  "application/vnd.ms-excel",
-];
-const ALLOWED_EXTENSIONS = [".csv"];
-
-// File validation functions
-const validateFileSize = (file: File): boolean => {
-  return file.size <= MAX_FILE_SIZE;
-};
-
-const validateFileType = (file: File): boolean => {
-  // Check MIME type
-  const mimeValid = ALLOWED_MIME_TYPES.includes(file.type);
-
-  // Check file extension as fallback
-  const extensionValid = ALLOWED_EXTENSIONS.some((ext) =>
-    file.name.toLowerCase().endsWith(ext)
-  );
+  ALLOWED_EXTENSIONS,
+  formatFileSize,
+  MAX_FILE_SIZE,
+  validateFileSize,
+  validateFileType,
+} from "../utils/fileValidation";
+import { toast } from "sonner";
+import { getRequiredHeadersDisplay } from "../utils/headerValidation";
+import { Upload, Loader2, Download } from "lucide-react";
 
-  return mimeValid || extensionValid;
-};
+interface QueuedFile {
+  id: string;
+  file: File;
+  status: UploadQueueStatus;
+}
 
-const formatFileSize = (bytes: number): string => {
-  if (bytes === 0) return "0 Bytes";
-  const k = 1024;
-  const sizes = ["Bytes", "KB", "MB", "GB"];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
-};
+// Files validated at the same time; the others wait for their turn
+const MAX_CONCURRENT_VALIDATIONS = 2;
 
 export const CSVUpload: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const uploadMutation = useUploadCSV();
   const downloadErrorMutation = useDownloadErrorFile();
-  const [isValidatingHeaders, setIsValidatingHeaders] = useState(false);
-  const [headerValidationError, setHeaderValidationError] = useState<
-    string | null
-  >(null);
+  // Loaded up front so dropped files can be matched to a saved profile
+  useMappingProfiles();
+  const [queue, setQueue] = useState<QueuedFile[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  // "Upload all" uploads the ready files one after another
+  const [isUploadingAll, setIsUploadingAll] = useState(false);
+  const [uploadRequestId, setUploadRequestId] = useState<string | null>(null);
+  const attemptedIdsRef = useRef<Set<string>>(new Set());
+  // The server keeps the error file of the latest upload only
+  const [errorFileSource, setErrorFileSource] = useState<string | null>(null);
+  const nextIdRef = useRef(0);
 
-  const uploadResult = uploadMutation.data?.data;
+  const readyCount = queue.filter((item) => item.status === "ready").length;
+  const uploadedCount = queue.filter(
+    (item) => item.status === "uploaded"
+  ).length;
+  const pendingCount = queue.filter(
+    (item) =>
+      item.status === "waiting" ||
+      item.status === "validating" ||
+      item.status === "previewing" ||
+      item.status === "uploading"
+  ).length;
 
-  const handleFileUpload = async (
-    event: React.ChangeEvent<HTMLInputElement>
-  ) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const resetFileInput = () => {
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
 
-    // Clear previous validation errors
-    setHeaderValidationError(null);
+  // Checks each file on its own and queues the acceptable ones
+  const addFiles = (files: File[]) => {
+    const accepted: QueuedFile[] = [];
 
-    // Validate file size
-    if (!validateFileSize(file)) {
-      toast.error(
-        `File too large. Maximum size is ${formatFileSize(
-          MAX_FILE_SIZE
-        )}. Your file is ${formatFileSize(file.size)}.`
-      );
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
+    files.forEach((file) => {
+      // Validate file size
+      if (!validateFileSize(file)) {
+        toast.error(
+          `${file.name} is too large. Maximum size is ${formatFileSize(
+            MAX_FILE_SIZE
+          )}. Your file is ${formatFileSize(file.size)}.`
+        );
+        return;
+      }
+
+      // Validate file type (MIME type and extension)
+      if (!validateFileType(file)) {
+        toast.error(
+          `${file.name} is not a CSV or Excel file (.csv, .xlsx or .xls).`
+        );
+        return;
       }
-      return;
-    }
 
-    // Validate file type (MIME type and extension)
-    if (!validateFileType(file)) {
-      toast.error(
-        "Invalid file type. Please select a CSV file (.csv extension required)."
+      const isQueued = [...queue, ...accepted].some(
+        (item) =>
+          item.file.name === file.name &&
+          item.file.size === file.size &&
+          item.status !== "uploaded"
       );
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
+      if (isQueued) {
+        toast.info(`${file.name} is already in the queue`);
+        return;
       }
-      return;
-    }
 
-    // Validate CSV headers and data
-    setIsValidatingHeaders(true);
-    try {
-      // First, read the entire file to validate both headers and data
-      const fileContent = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => resolve(e.target?.result as string);
-        reader.onerror = () => reject(new Error("Failed to read file"));
-        reader.readAsText(file);
+      nextIdRef.current += 1;
+      accepted.push({
+        id: `file-${nextIdRef.current}`,
+        file,
+        status: "waiting",
       });
+    });
 
-      // Parse CSV data
-      const { headers, data, errors: parseErrors } = parseCSVData(fileContent);
+    if (accepted.length > 0) {
+      setQueue((items) => [...items, ...accepted]);
+    }
+  };
 
-      if (parseErrors.length > 0) {
-        const errorMessage = parseErrors.join("; ");
-        setHeaderValidationError(errorMessage);
-        toast.error(`CSV parsing failed: ${errorMessage}`);
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    // Reset file input so the same file can be selected again
+    resetFileInput();
+    addFiles(files);
+  };
 
-        // Reset file input
-        if (fileInputRef.current) {
-          fileInputRef.current.value = "";
-        }
-        return;
-      }
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+    setIsDragging(true);
+  };
 
-      // Validate headers
-      const headerValidation = validateRequiredHeaders(headers);
-      if (!headerValidation.isValid) {
-        const errorMessage = createMissingHeadersMessage(
-          headerValidation.missingHeaders
-        );
-        setHeaderValidationError(errorMessage);
-        toast.error(`Header validation failed: ${errorMessage}`);
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Moving onto a child of the drop zone also fires dragleave
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
 
-        // Reset file input
-        if (fileInputRef.current) {
-          fileInputRef.current.value = "";
-        }
-        return;
-      }
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  };
 
-      // Validate data rows for empty required values
-      const dataValidation = validateCSVDataRows(data, headers);
-      if (!dataValidation.isValid) {
-        const errorMessage = createEmptyValuesMessage(
-          dataValidation.emptyValueErrors
-        );
-        setHeaderValidationError(errorMessage);
-        toast.error(`Data validation failed: ${errorMessage}`);
+  const handleStatusChange = (
+    item: QueuedFile,
+    status: UploadQueueStatus,
+    result?: UploadResponse
+  ) => {
+    setQueue((items) =>
+      items.map((queued) =>
+        queued.id === item.id ? { ...queued, status } : queued
+      )
+    );
+    if (result && (status === "uploaded" || status === "failed")) {
+      setErrorFileSource(result.hasErrorFile ? item.file.name : null);
+    }
+  };
 
-        // Reset file input
-        if (fileInputRef.current) {
-          fileInputRef.current.value = "";
-        }
-        return;
-      }
+  // Waiting files start in queue order as validations finish
+  const validatingCount = queue.filter(
+    (item) => item.status === "validating"
+  ).length;
+  const startableIds = new Set(
+    queue
+      .filter((item) => item.status === "waiting")
+      .slice(0, Math.max(0, MAX_CONCURRENT_VALIDATIONS - validatingCount))
+      .map((item) => item.id)
+  );
 
-      // Show warnings if any
-      const allWarnings = [
-        ...headerValidation.warnings,
-        ...dataValidation.warnings,
-      ];
-      if (allWarnings.length > 0) {
-        allWarnings.forEach((warning) => {
-          toast.warning(warning);
-        });
-      }
+  const handleRemove = (id: string) => {
+    setQueue((items) => items.filter((item) => item.id !== id));
+  };
 
-      // All validations passed, proceed with upload
-      uploadMutation.mutate(file);
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Failed to validate CSV file";
-      setHeaderValidationError(errorMessage);
-      toast.error(`Validation failed: ${errorMessage}`);
+  const handleClearUploaded = () => {
+    setQueue((items) => items.filter((item) => item.status !== "uploaded"));
+  };
 
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
-      }
-    } finally {
-      setIsValidatingHeaders(false);
-    }
+  const handleUploadAll = () => {
+    attemptedIdsRef.current = new Set();
+    setIsUploadingAll(true);
   };
 
+  // Hands the next ready file to its queue item once the previous upload has
+  // finished
+  useEffect(() => {
+    if (!isUploadingAll) return;
+    // Upserts and replacements wait for the user to confirm their summary
+    if (
+      queue.some((item) =>
+        ["previewing", "confirming", "uploading"].includes(item.status)
+      )
+    ) {
+      return;
+    }
+
+    const next = queue.find(
+      (item) => item.status === "ready" && !attemptedIdsRef.current.has(item.id)
+    );
+    if (!next) {
+      setIsUploadingAll(false);
+      setUploadRequestId(null);
+      return;
+    }
+    attemptedIdsRef.current.add(next.id);
+    setUploadRequestId(next.id);
+  }, [isUploadingAll, queue]);
+
   const handleDownloadErrorFile = () => {
     downloadErrorMutation.mutate();
   };
@@ -192,123 +200,128 @@ export const CSVUpload: React.FC = () => {
   return (
     <div className="bg-white rounded-lg shadow-sm border p-6">
       <h2 className="text-lg font-semibold text-gray-900 mb-4">
-        Upload CSV File
+        Upload CSV or Excel Files
       </h2>
 
       <div className="space-y-4">
         {/* Upload Area */}
-        <div className="relative">
+        <div
+          className="relative"
+          onDragEnter={handleDragOver}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
           <input
             ref={fileInputRef}
             type="file"
-            accept=".csv"
+            multiple
+            accept={ALLOWED_EXTENSIONS.join(",")}
             onChange={handleFileUpload}
-            disabled={uploadMutation.isPending || isValidatingHeaders}
-            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
             id="csv-upload"
           />
           <label
             htmlFor="csv-upload"
             className={`relative flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
-              uploadMutation.isPending || isValidatingHeaders
-                ? "border-gray-300 bg-gray-50 cursor-not-allowed"
+              isDragging
+                ? "border-blue-500 bg-blue-50"
                 : "border-gray-300 hover:border-blue-400 hover:bg-blue-50"
             }`}
           >
             <div className="flex flex-col items-center justify-center pt-5 pb-6">
-              {uploadMutation.isPending || isValidatingHeaders ? (
-                <Loader2 className="w-8 h-8 mb-4 text-blue-600 animate-spin" />
-              ) : (
-                <Upload className="w-8 h-8 mb-4 text-gray-400" />
-              )}
+              <Upload
+                className={`w-8 h-8 mb-4 ${
+                  isDragging ? "text-blue-600" : "text-gray-400"
+                }`}
+              />
               <p className="mb-2 text-sm text-gray-500">
                 <span className="font-semibold">
-                  {isValidatingHeaders
-                    ? "Validating file..."
-                    : uploadMutation.isPending
-                    ? "Processing..."
-                    : "Click to upload CSV file"}
+                  {isDragging
+                    ? "Drop files to add them to the queue"
+                    : "Click to upload CSV or Excel files"}
                 </span>
               </p>
               <p className="text-xs text-gray-500">
-                {uploadMutation.isPending || isValidatingHeaders
-                  ? "Please wait..."
-                  : "or drag and drop"}
+                or drag and drop one or more files
               </p>
             </div>
           </label>
         </div>
 
-        {uploadResult && (
-          <div
-            className={`p-4 rounded-lg ${
-              uploadResult.success
-                ? "bg-green-50 border border-green-200"
-                : "bg-red-50 border border-red-200"
-            }`}
-          >
-            <div className="flex items-start">
-              <div className="flex-shrink-0">
-                {uploadResult.success ? (
-                  <CheckCircle className="h-5 w-5 text-green-400" />
-                ) : (
-                  <XCircle className="h-5 w-5 text-red-400" />
-                )}
+        {queue.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-700">
+                <span className="font-medium">
+                  {queue.length} file(s) in queue
+                </span>
+                <span className="text-gray-500">
+                  {" "}
+                  • {readyCount} ready • {uploadedCount} uploaded
+                  {pendingCount > 0 && ` • ${pendingCount} in progress`}
+                </span>
               </div>
-              <div className="ml-3">
-                <h3
-                  className={`text-sm font-medium ${
-                    uploadResult.success ? "text-green-800" : "text-red-800"
-                  }`}
-                >
-                  Upload Complete
-                </h3>
-                <div
-                  className={`mt-2 text-sm ${
-                    uploadResult.success ? "text-green-700" : "text-red-700"
-                  }`}
+              <div className="flex items-center gap-2">
+                {uploadedCount > 0 && (
+                  <button
+                    onClick={handleClearUploaded}
+                    className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Clear uploaded
+                  </button>
+                )}
+                <button
+                  onClick={handleUploadAll}
+                  disabled={isUploadingAll || readyCount === 0}
+                  className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
                 >
-                  <p>Valid rows: {uploadResult.validRows}</p>
-                  <p>Invalid rows: {uploadResult.invalidRows}</p>
-                  {uploadResult.hasErrorFile && (
-                    <button
-                      onClick={handleDownloadErrorFile}
-                      disabled={downloadErrorMutation.isPending}
-                      className="mt-2 text-sm text-blue-600 hover:text-blue-500 underline disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
-                    >
-                      {downloadErrorMutation.isPending ? (
-                        <Loader2 className="animate-spin h-3 w-3" />
-                      ) : (
-                        <Download className="h-3 w-3" />
-                      )}
-                      {downloadErrorMutation.isPending
-                        ? "Downloading..."
-                        : "Download error.csv file"}
-                    </button>
+                  {isUploadingAll ? (
+                    <Loader2 className="animate-spin h-3 w-3" />
+                  ) : (
+                    <Upload className="h-3 w-3" />
                   )}
-                </div>
+                  {isUploadingAll
+                    ? "Uploading..."
+                    : `Upload all ready (${readyCount})`}
+                </button>
               </div>
             </div>
+
+            {queue.map((item) => (
+              <UploadQueueItem
+                key={item.id}
+                file={item.file}
+                canValidate={startableIds.has(item.id)}
+                uploadRequested={uploadRequestId === item.id}
+                onStatusChange={(status, result) =>
+                  handleStatusChange(item, status, result)
+                }
+                onRemove={() => handleRemove(item.id)}
+              />
+            ))}
           </div>
         )}
 
-        {headerValidationError && (
-          <div className="p-4 rounded-lg bg-red-50 border border-red-200">
-            <div className="flex items-start">
-              <AlertTriangle className="h-5 w-5 text-red-400 mt-0.5 mr-2" />
-              <div>
-                <h3 className="text-sm font-medium text-red-800">
-                  File Validation Failed
-                </h3>
-                <p className="mt-1 text-sm text-red-700">
-                  {headerValidationError}
-                </p>
-                <p className="mt-2 text-sm text-red-600">
-                  Please ensure your CSV file contains all required headers and
-                  that all required fields have values.
-                </p>
-              </div>
-            </div>
+        {errorFileSource && (
+          <div className="p-4 rounded-lg bg-yellow-50 border border-yellow-200 flex items-center justify-between gap-4">
+            <p className="text-sm text-yellow-800">
+              Invalid rows of {errorFileSource} were exported to error.csv
+            </p>
+            <button
+              onClick={handleDownloadErrorFile}
+              disabled={downloadErrorMutation.isPending}
+              className="text-sm text-blue-600 hover:text-blue-500 underline disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+            >
+              {downloadErrorMutation.isPending ? (
+                <Loader2 className="animate-spin h-3 w-3" />
+              ) : (
+                <Download className="h-3 w-3" />
+              )}
+              {downloadErrorMutation.isPending
+                ? "Downloading..."
+                : "Download error.csv file"}
+            </button>
           </div>
         )}
 
@@ -318,13 +331,32 @@ export const CSVUpload: React.FC = () => {
               <strong>{getRequiredHeadersDisplay()}</strong>
             </p>
             <p>
-              <strong>File requirements:</strong> CSV format, max{" "}
-              {formatFileSize(MAX_FILE_SIZE)}
+              <strong>File requirements:</strong> CSV or Excel (.xlsx, .xls)
+              format, max {formatFileSize(MAX_FILE_SIZE)} per file
             </p>
 
             <p>
               <strong>Data validation:</strong> All required headers must be
-              present and all required fields must have values
+              present, all required fields must have values and Quantity,
+              Length, Width, Height and Weight must be plain numbers (no units,
+              not negative); Thickness may include a unit or prefix (10mm, PL10)
+            </p>
+            <p>
+              <strong>File format:</strong> Comma, semicolon, tab and pipe
+              delimiters in UTF-8, UTF-16 or Windows-1252 are detected
+              automatically and can be changed before uploading
+            </p>
+            <p>
+              <strong>Excel workbooks:</strong> Choose the sheet and header row;
+              the sheet is converted to CSV before validation and upload
+            </p>
+            <p>
+              <strong>Fixing rows:</strong> Rows with invalid values are shown
+              in a preview where they can be edited or removed before uploading
+            </p>
+            <p>
+              <strong>Multiple files:</strong> Each file is validated on its
+              own; upload them one at a time or all ready files at once
             </p>
             <p>
               Invalid rows will be exported to error.csv with validation
@@ -1,8 +1,38 @@
-import React, { useState, useEffect } from "react";
-import { CSVRow } from "../services/api";
+import React, { useState, useEffect, useRef } from "react";
+import { CSVRow, RowFilter, RowSelection, SortColumn } from "../services/api";
 import { useDeleteRows, useDelete } from "../hooks/useCSVData";
 import { validateCSVContent, sanitizeCSVRow } from "../utils/csvSafety";
-import { validateRowData } from "../utils/headerValidation";
+import { validateRowValues } from "../utils/columnRules";
+import { toggleSortColumn } from "../utils/gridSort";
+import { ColumnFilters } from "../utils/gridFilters";
+import { ColumnFilterRow } from "./grid/ColumnFilterRow";
+import { ColumnSettingsPanel } from "./grid/ColumnSettingsPanel";
+import { CellEditor } from "./grid/CellEditor";
+import { BulkEditDialog } from "./grid/BulkEditDialog";
+import { PasteDialog } from "./grid/PasteDialog";
+import {
+  parsePastedText,
+  PastePreview,
+  previewPaste,
+} from "../utils/gridPaste";
+import { GridMode, PAGE_SIZE_OPTIONS } from "../utils/gridUrlState";
+import { useVirtualRows } from "../hooks/useVirtualRows";
+import {
+  describeEditHistoryEntry,
+  useEditHistory,
+} from "../contexts/EditHistoryContext";
+import {
+  ColumnLayout,
+  DataColumnId,
+  DEFAULT_COLUMN_LAYOUT,
+  getVisibleColumns,
+  GridColumnId,
+  moveColumn,
+  NUMBER_FIELDS,
+  SELECT_COLUMN_WIDTH,
+  setColumnWidth,
+  VisibleColumn,
+} from "../utils/gridColumns";
 import {
   useGenerateZPLLabel,
   useGeneratePDFLabel,
@@ -12,26 +42,78 @@ import {
   Loader2,
   FileText,
   AlertTriangle,
-  Edit,
   Trash2,
-  Save,
-  X,
   Tag,
   FileImage,
   ChevronLeft,
   ChevronRight,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  Columns3,
+  PencilLine,
+  Undo2,
+  Redo2,
+  RotateCcw,
 } from "lucide-react";
 
 interface DataGridProps {
   data: CSVRow[];
   loading: boolean;
-  onUpdateRow: (id: number, updatedData: Partial<CSVRow>) => void;
+  // Previous values of the changed fields are passed for the undo history
+  onUpdateRow: (
+    id: number,
+    updatedData: Partial<CSVRow>,
+    previous: Partial<CSVRow>
+  ) => void;
   currentPage: number;
   totalPages: number;
   onPageChange: (page: number) => void;
   isUpdating?: boolean;
+  // Server-side sort, in priority order
+  sort?: SortColumn[];
+  onSortChange?: (sort: SortColumn[]) => void;
+  // Per-column filters, shown as a row under the headers
+  columnFilters?: ColumnFilters;
+  onColumnFiltersChange?: (filters: ColumnFilters) => void;
+  // Whether a search or filter is applied, so no rows means no matches
+  isFiltered?: boolean;
+  // Pages, or one virtualised list that loads more rows near its end
+  mode?: GridMode;
+  onModeChange?: (mode: GridMode) => void;
+  pageSize?: number;
+  onPageSizeChange?: (pageSize: number) => void;
+  // Rows matching the query, and loading of further rows in scroll mode
+  totalRows?: number;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  // Set when loading more rows failed; loading then waits for a retry
+  loadMoreFailed?: boolean;
+  onLoadMore?: () => void;
+  // Changes with the query, to scroll back to the top in scroll mode
+  resetScrollKey?: string;
+  // Search and filters of the query, to select every matching row
+  rowFilter?: RowFilter;
+  // Order, visibility, widths and pinning of the columns
+  columnLayout?: ColumnLayout;
+  onColumnLayoutChange?: (
+    update: (layout: ColumnLayout) => ColumnLayout
+  ) => void;
+}
+
+// Approximate height of a row (two lines of actions), used to size the rows
+// skipped in scroll mode
+const ROW_HEIGHT = 69;
+
+// Cell of the grid, by row and column
+interface GridCell {
+  rowId: number;
+  field: DataColumnId;
 }
 
+const isSameCell = (cell: GridCell | null, rowId: number, field: string) =>
+  !!cell && cell.rowId === rowId && cell.field === field;
+
 export const DataGrid: React.FC<DataGridProps> = ({
   data,
   loading,
@@ -40,10 +122,83 @@ export const DataGrid: React.FC<DataGridProps> = ({
   totalPages,
   onPageChange,
   isUpdating = false,
+  sort = [],
+  onSortChange,
+  columnFilters,
+  onColumnFiltersChange,
+  isFiltered = false,
+  mode = "paged",
+  onModeChange,
+  pageSize,
+  onPageSizeChange,
+  totalRows,
+  hasMore = false,
+  isLoadingMore = false,
+  loadMoreFailed = false,
+  onLoadMore,
+  resetScrollKey,
+  rowFilter,
+  columnLayout = DEFAULT_COLUMN_LAYOUT,
+  onColumnLayoutChange,
 }) => {
-  const [editingRow, setEditingRow] = useState<number | null>(null);
-  const [editData, setEditData] = useState<Partial<CSVRow>>({});
-  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  // Cell picked with the mouse or keyboard, and the cell being edited
+  const [activeCell, setActiveCell] = useState<GridCell | null>(null);
+  const [editingCell, setEditingCell] = useState<GridCell | null>(null);
+  const [editValue, setEditValue] = useState("");
+  const [editError, setEditError] = useState<string | null>(null);
+  // Last saved cell, showing a spinner while the update is pending
+  const [savingCell, setSavingCell] = useState<GridCell | null>(null);
+  const tableRef = useRef<HTMLTableElement>(null);
+  // Set by the keyboard to move focus to the active cell; leaving an edited
+  // cell with the mouse must not pull focus back into the grid
+  const focusActiveCellRef = useRef(false);
+  // Rows picked one by one, kept across pages with their latest loaded values
+  const [selectedRows, setSelectedRows] = useState<Map<number, CSVRow>>(
+    new Map()
+  );
+  // Every row matching the query is selected, except the excluded ones
+  const [isAllMatchingSelected, setIsAllMatchingSelected] = useState(false);
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const isScrollMode = mode === "scroll";
+  const {
+    containerRef,
+    handleScroll,
+    scrollToTop,
+    start,
+    end,
+    paddingTop,
+    paddingBottom,
+  } = useVirtualRows(data.length, ROW_HEIGHT, isScrollMode);
+  const [showColumnSettings, setShowColumnSettings] = useState(false);
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  // Changes of a block pasted into the grid, awaiting confirmation
+  const [pastePreview, setPastePreview] = useState<PastePreview | null>(null);
+  const [draggedColumn, setDraggedColumn] = useState<GridColumnId | null>(null);
+  // Column being resized, with the pointer position and width it started at
+  const resizeRef = useRef<{
+    id: GridColumnId;
+    startX: number;
+    startWidth: number;
+  } | null>(null);
+  const columns = getVisibleColumns(columnLayout);
+  const hasLeftPinned = columns.some((column) => column.pinned === "left");
+  const tableWidth =
+    SELECT_COLUMN_WIDTH +
+    columns.reduce((width, column) => width + column.width, 0);
+  // Selection column, visible columns and the filler taking any spare width
+  const columnCount = columns.length + 2;
+  // Columns the active cell moves through
+  const cellFields = columns
+    .map((column) => column.id)
+    .filter((id): id is DataColumnId => id !== "actions");
+
+  const {
+    undo,
+    redo,
+    undoEntry,
+    redoEntry,
+    isPending: isHistoryPending,
+  } = useEditHistory();
 
   // Delete hooks
   const deleteRowsMutation = useDeleteRows();
@@ -54,108 +209,381 @@ export const DataGrid: React.FC<DataGridProps> = ({
   const generatePDFLabelMutation = useGeneratePDFLabel();
   const generateBulkLabelsMutation = useGenerateBulkLabels();
 
-  const handleEdit = (row: CSVRow) => {
-    setEditingRow(row.id);
-    setEditData({ ...row });
+  // Moves the active cell; Tab wraps to the next or previous row
+  const moveActiveCell = (
+    rowDelta: number,
+    fieldDelta: number,
+    wrap: boolean = false
+  ) => {
+    if (!activeCell) return;
+    let rowIndex = data.findIndex((row) => row.id === activeCell.rowId);
+    let fieldIndex = cellFields.indexOf(activeCell.field) + fieldDelta;
+    if (rowIndex === -1 || cellFields.length === 0) return;
+
+    if (fieldIndex >= cellFields.length) {
+      fieldIndex =
+        wrap && rowIndex < data.length - 1 ? 0 : cellFields.length - 1;
+      if (wrap && rowIndex < data.length - 1) rowIndex++;
+    } else if (fieldIndex < 0) {
+      fieldIndex = wrap && rowIndex > 0 ? cellFields.length - 1 : 0;
+      if (wrap && rowIndex > 0) rowIndex--;
+    }
+    rowIndex = Math.min(data.length - 1, Math.max(0, rowIndex + rowDelta));
+
+    focusActiveCellRef.current = true;
+    setActiveCell({ rowId: data[rowIndex].id, field: cellFields[fieldIndex] });
   };
 
-  const handleSave = (id: number) => {
-    // Validate required fields before saving
-    const requiredFieldValidation = validateRowData(
-      editData,
-      Object.keys(editData)
-    );
+  // Starts editing a cell with its value, or with the given text when typing
+  // replaces it; the id cannot be edited
+  const startEditing = (row: CSVRow, field: DataColumnId, text?: string) => {
+    if (field === "id") return;
+    setActiveCell({ rowId: row.id, field });
+    setEditingCell({ rowId: row.id, field });
+    setEditValue(text ?? String(row[field] ?? ""));
+    setEditError(null);
+  };
 
-    if (!requiredFieldValidation.isValid) {
-      const missingFields = requiredFieldValidation.missingFields;
-      const emptyFields = requiredFieldValidation.emptyRequiredFields;
+  const cancelEditing = () => {
+    setEditingCell(null);
+    setEditError(null);
+  };
 
-      let errorMessage = "Cannot save: ";
-      if (missingFields.length > 0) {
-        errorMessage += `Missing required fields: ${missingFields.join(
-          ", "
-        )}. `;
-      }
-      if (emptyFields.length > 0) {
-        errorMessage += `Empty required fields: ${emptyFields.join(", ")}.`;
-      }
+  // Validates the edited cell against its column rule and saves it when it
+  // changed; returns false when the value is invalid
+  const commitEditing = (rowDelta: number, fieldDelta: number) => {
+    if (!editingCell) return true;
+    const { rowId, field } = editingCell;
+    const row = data.find((item) => item.id === rowId);
+    const text = editValue.trim();
+
+    const error = validateRowValues({ [field]: text })[field];
+    if (error) {
+      setEditError(error);
+      return false;
+    }
+
+    const value = NUMBER_FIELDS.includes(field)
+      ? text === ""
+        ? null
+        : Number(text)
+      : text;
+    if (row && String(row[field] ?? "") !== String(value ?? "")) {
+      // Sanitize the value before sending to server
+      onUpdateRow(row.id, sanitizeCSVRow({ [field]: value }), {
+        [field]: row[field] ?? null,
+      });
+      setSavingCell(editingCell);
+    }
+    cancelEditing();
+    if (rowDelta !== 0 || fieldDelta !== 0) {
+      moveActiveCell(rowDelta, fieldDelta, fieldDelta !== 0);
+    }
+    return true;
+  };
+
+  // Pasting a block copied from a spreadsheet fills the cells from the active
+  // cell on, once the changes are confirmed; a single value starts editing
+  // the active cell with it
+  const handlePaste = (e: React.ClipboardEvent<HTMLTableElement>) => {
+    if (!activeCell || editingCell) return;
+    const rowIndex = data.findIndex((row) => row.id === activeCell.rowId);
+    const fieldIndex = cellFields.indexOf(activeCell.field);
+    const block = parsePastedText(e.clipboardData.getData("text/plain"));
+    if (rowIndex === -1 || fieldIndex === -1 || block.length === 0) return;
+    e.preventDefault();
 
-      alert(errorMessage);
+    if (block.length === 1 && block[0].length === 1) {
+      startEditing(data[rowIndex], activeCell.field, block[0][0]);
       return;
     }
+    setPastePreview(
+      previewPaste(data, cellFields, rowIndex, fieldIndex, block)
+    );
+  };
 
-    // Sanitize the edit data before sending to server
-    const sanitizedData = sanitizeCSVRow(editData);
-    onUpdateRow(id, sanitizedData);
-    setEditingRow(null);
-    setEditData({});
+  // Keys of the active cell when it is not being edited: arrows and Tab move,
+  // Enter or F2 edits, Delete or Backspace edits from empty and typing
+  // replaces the value
+  const handleCellKeyDown = (
+    e: React.KeyboardEvent<HTMLElement>,
+    row: CSVRow,
+    field: DataColumnId
+  ) => {
+    if (e.key === "ArrowUp") {
+      moveActiveCell(-1, 0);
+    } else if (e.key === "ArrowDown") {
+      moveActiveCell(1, 0);
+    } else if (e.key === "ArrowLeft") {
+      moveActiveCell(0, -1);
+    } else if (e.key === "ArrowRight") {
+      moveActiveCell(0, 1);
+    } else if (e.key === "Tab") {
+      moveActiveCell(0, e.shiftKey ? -1 : 1, true);
+    } else if (e.key === "Enter" || e.key === "F2") {
+      startEditing(row, field);
+    } else if (e.key === "Delete" || e.key === "Backspace") {
+      startEditing(row, field, "");
+    } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      startEditing(row, field, e.key);
+    } else {
+      return;
+    }
+    e.preventDefault();
   };
 
-  const handleCancel = () => {
-    setEditingRow(null);
-    setEditData({});
+  // Pinned columns stay in place while the grid scrolls sideways, with a
+  // background so cells scrolling underneath do not show through; null is
+  // the selection column, pinned along with any left pinned column
+  const getCellProps = (
+    column: VisibleColumn | null,
+    background: string = "bg-white group-hover:bg-gray-50"
+  ): { className: string; style?: React.CSSProperties } => {
+    const pinned = column ? column.pinned : hasLeftPinned ? "left" : undefined;
+    if (!pinned) return { className: "" };
+    return {
+      className: `sticky z-[5] ${background}`,
+      style:
+        pinned === "left"
+          ? { left: column ? column.offset : 0 }
+          : { right: column?.offset },
+    };
   };
 
-  const handleInputChange = (field: keyof CSVRow, value: string | number) => {
-    // For text fields, validate for formula injection
-    if (
-      typeof value === "string" &&
-      field !== "id" &&
-      field !== "created_at" &&
-      field !== "updated_at"
-    ) {
-      const validation = validateCSVContent(value);
-      if (!validation.isSafe) {
-        // Show warning but allow editing (user can decide to keep or change)
-        console.warn(
-          `Security warning for field ${field}:`,
-          validation.warnings
-        );
-      }
+  // Resizing by dragging a header's right edge; pointer capture keeps the
+  // drag going outside the handle, with mouse or touch
+  const handleResizeStart = (
+    e: React.PointerEvent<HTMLElement>,
+    column: VisibleColumn
+  ) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    resizeRef.current = {
+      id: column.id,
+      startX: e.clientX,
+      startWidth: column.width,
+    };
+  };
+
+  const handleResizeMove = (e: React.PointerEvent<HTMLElement>) => {
+    const resize = resizeRef.current;
+    if (!resize) return;
+    onColumnLayoutChange?.((layout) =>
+      setColumnWidth(
+        layout,
+        resize.id,
+        resize.startWidth + e.clientX - resize.startX
+      )
+    );
+  };
+
+  const handleResizeEnd = () => {
+    resizeRef.current = null;
+  };
+
+  // Reordering by dragging a header onto another one
+  const handleColumnDrop = (targetId: GridColumnId) => {
+    if (draggedColumn) {
+      onColumnLayoutChange?.((layout) =>
+        moveColumn(layout, draggedColumn, targetId)
+      );
     }
+    setDraggedColumn(null);
+  };
+
+  // Header of a column: click sorts by it and Shift+click adds it to the
+  // sort; the header can be dragged to move the column and its right edge
+  // to resize it
+  const renderHeader = (column: VisibleColumn) => {
+    const field = column.id === "actions" ? null : column.id;
+    const index = sort.findIndex((item) => item.field === field);
+    const sortColumn = sort[index];
+    const SortIcon = !sortColumn
+      ? ArrowUpDown
+      : sortColumn.direction === "asc"
+      ? ArrowUp
+      : ArrowDown;
+    const { className, style } = getCellProps(column, "bg-gray-50");
 
-    setEditData((prev) => ({
-      ...prev,
-      [field]: value,
-    }));
+    return (
+      <th
+        key={column.id}
+        className={`relative px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider ${className} ${
+          draggedColumn === column.id ? "opacity-50" : ""
+        }`}
+        style={{ ...style, width: column.width }}
+        aria-sort={
+          !field
+            ? undefined
+            : sortColumn
+            ? sortColumn.direction === "asc"
+              ? "ascending"
+              : "descending"
+            : "none"
+        }
+        draggable={!!onColumnLayoutChange}
+        onDragStart={(e) => {
+          // Dragging the resize handle must not move the column
+          if (resizeRef.current) {
+            e.preventDefault();
+            return;
+          }
+          e.dataTransfer.effectAllowed = "move";
+          e.dataTransfer.setData("text/plain", column.id);
+          setDraggedColumn(column.id);
+        }}
+        onDragOver={(e) => {
+          if (draggedColumn && draggedColumn !== column.id) e.preventDefault();
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleColumnDrop(column.id);
+        }}
+        onDragEnd={() => setDraggedColumn(null)}
+      >
+        {field ? (
+          <button
+            type="button"
+            onClick={(e) =>
+              onSortChange?.(toggleSortColumn(sort, field, e.shiftKey))
+            }
+            disabled={!onSortChange}
+            className="flex items-center gap-1 uppercase tracking-wider select-none hover:text-gray-700 disabled:cursor-default"
+            title="Click to sort, Shift+click to sort by several columns"
+          >
+            <span className="truncate">{column.label}</span>
+            <SortIcon
+              className={`h-3 w-3 flex-shrink-0 ${
+                sortColumn ? "text-blue-600" : "text-gray-300"
+              }`}
+            />
+            {sortColumn && sort.length > 1 && (
+              <span className="text-blue-600">{index + 1}</span>
+            )}
+          </button>
+        ) : (
+          column.label
+        )}
+        {onColumnLayoutChange && (
+          <span
+            onPointerDown={(e) => handleResizeStart(e, column)}
+            onPointerMove={handleResizeMove}
+            onPointerUp={handleResizeEnd}
+            onPointerCancel={handleResizeEnd}
+            className="absolute top-0 right-0 h-full w-2 cursor-col-resize touch-none hover:bg-blue-200"
+            title="Drag to resize"
+          />
+        )}
+      </th>
+    );
   };
 
   // Selection handlers
+  const isRowSelected = (id: number) =>
+    isAllMatchingSelected ? !excludedRows.has(id) : selectedRows.has(id);
+
+  const selectedCount = isAllMatchingSelected
+    ? Math.max(0, (totalRows ?? data.length) - excludedRows.size)
+    : selectedRows.size;
+
+  const clearSelection = () => {
+    setSelectedRows(new Map());
+    setIsAllMatchingSelected(false);
+    setExcludedRows(new Set());
+  };
+
+  // The header checkbox adds or removes the loaded rows; unchecking it while
+  // every matching row is selected clears the whole selection
   const handleSelectAll = (checked: boolean) => {
-    if (checked) {
-      setSelectedRows(new Set(data.map((row) => row.id)));
-    } else {
-      setSelectedRows(new Set());
+    if (isAllMatchingSelected) {
+      if (checked) {
+        const ids = new Set(data.map((row) => row.id));
+        setExcludedRows(
+          (prev) => new Set(Array.from(prev).filter((id) => !ids.has(id)))
+        );
+      } else {
+        clearSelection();
+      }
+      return;
     }
+
+    const newSelected = new Map(selectedRows);
+    data.forEach((row) => {
+      if (checked) {
+        newSelected.set(row.id, row);
+      } else {
+        newSelected.delete(row.id);
+      }
+    });
+    setSelectedRows(newSelected);
   };
 
-  const handleSelectRow = (id: number, checked: boolean) => {
-    const newSelected = new Set(selectedRows);
+  const handleSelectRow = (row: CSVRow, checked: boolean) => {
+    if (isAllMatchingSelected) {
+      const newExcluded = new Set(excludedRows);
+      if (checked) {
+        newExcluded.delete(row.id);
+      } else {
+        newExcluded.add(row.id);
+      }
+      if (totalRows !== undefined && newExcluded.size >= totalRows) {
+        clearSelection();
+      } else {
+        setExcludedRows(newExcluded);
+      }
+      return;
+    }
+
+    const newSelected = new Map(selectedRows);
     if (checked) {
-      newSelected.add(id);
+      newSelected.set(row.id, row);
     } else {
-      newSelected.delete(id);
+      newSelected.delete(row.id);
     }
     setSelectedRows(newSelected);
   };
 
+  const handleSelectAllMatching = () => {
+    setSelectedRows(new Map());
+    setExcludedRows(new Set());
+    setIsAllMatchingSelected(true);
+  };
+
+  // Selection sent with bulk actions: the matching rows are described by the
+  // query's filter rather than by their ids
+  const getRowSelection = (): RowSelection =>
+    isAllMatchingSelected && rowFilter
+      ? { filter: rowFilter, excludeIds: Array.from(excludedRows) }
+      : { ids: Array.from(selectedRows.keys()) };
+
+  // Selected rows that are loaded, previewed by the bulk edit dialog
+  const selectedRowData = isAllMatchingSelected
+    ? data.filter((row) => !excludedRows.has(row.id))
+    : Array.from(selectedRows.values());
+
   // Delete handlers
   const handleDeleteRow = (id: number) => {
     if (window.confirm("Are you sure you want to delete this row?")) {
       deleteRowMutation.mutate(id);
+      // Deleted rows on other pages would otherwise stay selected
+      setSelectedRows((prev) => {
+        const next = new Map(prev);
+        next.delete(id);
+        return next;
+      });
     }
   };
 
   const handleDeleteSelected = () => {
-    if (selectedRows.size === 0) return;
+    if (selectedCount === 0) return;
 
     if (
       window.confirm(
-        `Are you sure you want to delete ${selectedRows.size} selected row(s)?`
+        `Are you sure you want to delete ${selectedCount.toLocaleString()} selected row(s)?`
       )
     ) {
-      deleteRowsMutation.mutate(Array.from(selectedRows));
-      setSelectedRows(new Set());
+      deleteRowsMutation.mutate(getRowSelection());
+      clearSelection();
     }
   };
 
@@ -169,13 +597,24 @@ export const DataGrid: React.FC<DataGridProps> = ({
   };
 
   const handleGenerateBulkLabels = () => {
-    if (selectedRows.size === 0) return;
-    generateBulkLabelsMutation.mutate(Array.from(selectedRows));
+    if (selectedCount === 0) return;
+    generateBulkLabelsMutation.mutate(getRowSelection());
   };
 
-  const isAllSelected = data.length > 0 && selectedRows.size === data.length;
+  // Header checkbox state, for the loaded rows
+  const loadedSelectedCount = data.filter((row) =>
+    isRowSelected(row.id)
+  ).length;
+  const isAllSelected = data.length > 0 && loadedSelectedCount === data.length;
   const isIndeterminate =
-    selectedRows.size > 0 && selectedRows.size < data.length;
+    loadedSelectedCount > 0 && loadedSelectedCount < data.length;
+  // Offer to extend the selection to rows that are not loaded
+  const canSelectAllMatching =
+    !!rowFilter &&
+    !isAllMatchingSelected &&
+    isAllSelected &&
+    totalRows !== undefined &&
+    totalRows > selectedRows.size;
 
   // Helper function to safely display values with security indicators
   const renderSafeValue = (value: string | number | null | undefined) => {
@@ -205,11 +644,210 @@ export const DataGrid: React.FC<DataGridProps> = ({
     return <span>{stringValue}</span>;
   };
 
-  // Clear selections when data changes (e.g., after delete, search, pagination)
+  const renderActions = (row: CSVRow) => (
+    <div className="flex flex-col space-y-1">
+      <div className="flex space-x-2">
+        <button
+          onClick={() => handleDeleteRow(row.id)}
+          disabled={deleteRowMutation.isPending}
+          className="text-red-600 hover:text-red-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 text-xs"
+        >
+          {deleteRowMutation.isPending ? (
+            <Loader2 className="animate-spin h-3 w-3" />
+          ) : (
+            <Trash2 className="h-3 w-3" />
+          )}
+          {deleteRowMutation.isPending ? "Deleting..." : "Delete"}
+        </button>
+      </div>
+      <div className="flex space-x-2">
+        <button
+          onClick={() => handleGenerateZPLLabel(row.id)}
+          disabled={generateZPLLabelMutation.isPending}
+          className="text-green-600 hover:text-green-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 text-xs"
+        >
+          {generateZPLLabelMutation.isPending ? (
+            <Loader2 className="animate-spin h-3 w-3" />
+          ) : (
+            <Tag className="h-3 w-3" />
+          )}
+          ZPL
+        </button>
+        <button
+          onClick={() => handleGeneratePDFLabel(row.id)}
+          disabled={generatePDFLabelMutation.isPending}
+          className="text-purple-600 hover:text-purple-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 text-xs"
+        >
+          {generatePDFLabelMutation.isPending ? (
+            <Loader2 className="animate-spin h-3 w-3" />
+          ) : (
+            <FileImage className="h-3 w-3" />
+          )}
+          PDF
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderCell = (row: CSVRow, column: VisibleColumn) => {
+    const { className, style } = getCellProps(column);
+    if (column.id === "actions") {
+      return (
+        <td
+          key={column.id}
+          className={`px-6 py-4 whitespace-nowrap text-sm font-medium overflow-hidden ${className}`}
+          style={style}
+        >
+          {renderActions(row)}
+        </td>
+      );
+    }
+
+    const field = column.id;
+    const isActive = isSameCell(activeCell, row.id, field);
+    const isEditing = isSameCell(editingCell, row.id, field);
+    // Without an active cell, Tab enters the grid at its first cell
+    const isTabStop =
+      isActive ||
+      (!activeCell && row.id === data[0]?.id && field === cellFields[0]);
+
+    return (
+      <td
+        key={field}
+        data-cell={`${row.id}:${field}`}
+        tabIndex={isTabStop ? 0 : -1}
+        onFocus={() => {
+          if (!isActive) setActiveCell({ rowId: row.id, field });
+        }}
+        onDoubleClick={() => startEditing(row, field)}
+        onKeyDown={
+          isEditing ? undefined : (e) => handleCellKeyDown(e, row, field)
+        }
+        className={`px-6 py-4 text-sm text-gray-900 overflow-hidden outline-none ${
+          field === "notes" ? "" : "whitespace-nowrap"
+        } ${field === "id" ? "" : "cursor-cell"} ${
+          isActive ? "ring-2 ring-inset ring-blue-500" : ""
+        } ${className}`}
+        style={style}
+      >
+        {isEditing ? (
+          <CellEditor
+            value={editValue}
+            numeric={NUMBER_FIELDS.includes(field)}
+            error={editError}
+            onChange={(value) => {
+              setEditValue(value);
+              setEditError(null);
+            }}
+            onCommit={commitEditing}
+            onCancel={() => {
+              focusActiveCellRef.current = true;
+              cancelEditing();
+            }}
+          />
+        ) : (
+          <div className="flex items-center gap-1">
+            {field === "part_mark" ? (
+              <span className="font-medium">
+                {renderSafeValue(row.part_mark)}
+              </span>
+            ) : field === "notes" ? (
+              <span className="truncate block">
+                {renderSafeValue(row.notes)}
+              </span>
+            ) : (
+              renderSafeValue(row[field])
+            )}
+            {isUpdating && isSameCell(savingCell, row.id, field) && (
+              <Loader2 className="animate-spin h-3 w-3 text-blue-600 flex-shrink-0" />
+            )}
+          </div>
+        )}
+      </td>
+    );
+  };
+
+  // Keep keyboard focus on the active cell after moving or editing
   useEffect(() => {
-    setSelectedRows(new Set());
+    if (!activeCell || editingCell || !focusActiveCellRef.current) return;
+    focusActiveCellRef.current = false;
+    tableRef.current
+      ?.querySelector<HTMLElement>(
+        `[data-cell="${activeCell.rowId}:${activeCell.field}"]`
+      )
+      ?.focus();
+  }, [activeCell, editingCell]);
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z (or Ctrl+Y) redoes the latest edit or
+  // delete, except while typing in a field, which has its own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (
+        e.target instanceof HTMLElement &&
+        e.target.closest("input, textarea, select, [contenteditable='true']")
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === "y" && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  // Keep selected rows up to date as data changes; selections on other pages
+  // are kept while paging, while in scroll mode every selected row is loaded,
+  // so rows that are gone (e.g. deleted) are dropped
+  useEffect(() => {
+    const loaded = new Map(data.map((row) => [row.id, row]));
+    setSelectedRows((prev) => {
+      const next = new Map<number, CSVRow>();
+      prev.forEach((row, id) => {
+        const current = loaded.get(id);
+        if (current) {
+          next.set(id, current);
+        } else if (!isScrollMode) {
+          next.set(id, row);
+        }
+      });
+      return next;
+    });
   }, [data]);
 
+  // A new search, sort or filter starts from the top with nothing selected
+  useEffect(() => {
+    scrollToTop();
+    clearSelection();
+    setActiveCell(null);
+    cancelEditing();
+  }, [resetScrollKey]);
+
+  // Load more rows once the last loaded rows are rendered; after a failure
+  // the user retries, so a failing request is not repeated in a loop
+  useEffect(() => {
+    if (
+      isScrollMode &&
+      hasMore &&
+      !isLoadingMore &&
+      !loadMoreFailed &&
+      end >= data.length
+    ) {
+      onLoadMore?.();
+    }
+  }, [isScrollMode, hasMore, isLoadingMore, loadMoreFailed, end, data.length]);
+
   if (loading) {
     return (
       <div className="bg-white rounded-lg shadow-sm border p-8">
@@ -221,7 +859,7 @@ export const DataGrid: React.FC<DataGridProps> = ({
     );
   }
 
-  if (data?.length === 0) {
+  if (data?.length === 0 && !isFiltered) {
     return (
       <div className="bg-white rounded-lg shadow-sm border p-8">
         <div className="text-center text-gray-500">
@@ -242,15 +880,112 @@ export const DataGrid: React.FC<DataGridProps> = ({
           <div>
             <h2 className="text-lg font-semibold text-gray-900">Data Grid</h2>
             <p className="text-sm text-gray-600">
-              Click on any cell to edit inline
+              Double-click a cell or select it and type to edit; arrows, Tab and
+              Enter move between cells, and cells copied from Excel can be
+              pasted from the selected cell on. Click a column header to sort,
+              Shift+click to sort by several columns
             </p>
+            <div className="mt-2 flex flex-wrap items-center gap-4 text-sm">
+              {onModeChange && (
+                <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                  {(["paged", "scroll"] as GridMode[]).map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => onModeChange(option)}
+                      className={`px-3 py-1 ${
+                        mode === option
+                          ? "bg-blue-600 text-white"
+                          : "bg-white text-gray-700 hover:bg-gray-50"
+                      }`}
+                    >
+                      {option === "paged" ? "Pages" : "Scroll"}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {onPageSizeChange && pageSize && (
+                <label className="flex items-center gap-2 text-gray-700">
+                  {isScrollMode ? "Rows per load" : "Rows per page"}
+                  <select
+                    value={pageSize}
+                    onChange={(e) => onPageSizeChange(Number(e.target.value))}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {Array.from(new Set([...PAGE_SIZE_OPTIONS, pageSize]))
+                      .sort((a, b) => a - b)
+                      .map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+              )}
+              {onColumnLayoutChange && (
+                <button
+                  type="button"
+                  onClick={() => setShowColumnSettings((show) => !show)}
+                  className={`px-3 py-1 border rounded-md flex items-center gap-1 ${
+                    showColumnSettings
+                      ? "border-blue-600 text-blue-700 bg-blue-50"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                  }`}
+                  aria-expanded={showColumnSettings}
+                >
+                  <Columns3 className="h-4 w-4" />
+                  Columns
+                  {columnLayout.hidden.length > 0 &&
+                    ` (${columnLayout.hidden.length} hidden)`}
+                </button>
+              )}
+              <div className="inline-flex gap-1">
+                <button
+                  type="button"
+                  onClick={undo}
+                  disabled={!undoEntry || isHistoryPending}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                  title={
+                    undoEntry
+                      ? `Undo ${describeEditHistoryEntry(undoEntry)} (Ctrl+Z)`
+                      : "Nothing to undo"
+                  }
+                >
+                  <Undo2 className="h-4 w-4" />
+                  Undo
+                </button>
+                <button
+                  type="button"
+                  onClick={redo}
+                  disabled={!redoEntry || isHistoryPending}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                  title={
+                    redoEntry
+                      ? `Redo ${describeEditHistoryEntry(
+                          redoEntry
+                        )} (Ctrl+Shift+Z)`
+                      : "Nothing to redo"
+                  }
+                >
+                  <Redo2 className="h-4 w-4" />
+                  Redo
+                </button>
+              </div>
+            </div>
           </div>
 
-          {selectedRows.size > 0 && (
+          {selectedCount > 0 && (
             <div className="flex items-center gap-3">
               <span className="text-sm text-gray-600">
-                {selectedRows.size} row(s) selected
+                {selectedCount.toLocaleString()} row(s) selected
               </span>
+              <button
+                onClick={() => setShowBulkEdit(true)}
+                className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 flex items-center gap-1"
+              >
+                <PencilLine className="h-3 w-3" />
+                Bulk Edit
+              </button>
               <button
                 onClick={handleGenerateBulkLabels}
                 disabled={generateBulkLabelsMutation.isPending}
@@ -284,11 +1019,67 @@ export const DataGrid: React.FC<DataGridProps> = ({
         </div>
       </div>
 
-      <div className="overflow-x-auto">
-        <table className="min-w-full divide-y divide-gray-200">
-          <thead className="bg-gray-50">
+      {(canSelectAllMatching || isAllMatchingSelected) && (
+        <div className="px-6 py-2 bg-blue-50 border-b border-blue-100 text-sm text-blue-800 text-center">
+          {isAllMatchingSelected ? (
+            <>
+              All {selectedCount.toLocaleString()} matching row(s) are selected.{" "}
+              <button
+                type="button"
+                onClick={clearSelection}
+                className="font-medium text-blue-600 hover:text-blue-500 underline"
+              >
+                Clear selection
+              </button>
+            </>
+          ) : (
+            <>
+              {selectedRows.size > data.length
+                ? `${selectedRows.size.toLocaleString()} row(s) are selected, including all loaded rows.`
+                : `All ${data.length.toLocaleString()} loaded row(s) are selected.`}{" "}
+              <button
+                type="button"
+                onClick={handleSelectAllMatching}
+                className="font-medium text-blue-600 hover:text-blue-500 underline"
+              >
+                Select all {totalRows?.toLocaleString()} matching rows
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {showColumnSettings && onColumnLayoutChange && (
+        <ColumnSettingsPanel
+          layout={columnLayout}
+          onChange={onColumnLayoutChange}
+        />
+      )}
+
+      <div
+        ref={containerRef}
+        onScroll={handleScroll}
+        className={isScrollMode ? "overflow-auto h-[70vh]" : "overflow-x-auto"}
+      >
+        <table
+          ref={tableRef}
+          onPaste={handlePaste}
+          className="w-full table-fixed divide-y divide-gray-200"
+          style={{ minWidth: tableWidth }}
+        >
+          <thead
+            className={`bg-gray-50 ${isScrollMode ? "sticky top-0 z-10" : ""}`}
+          >
             <tr>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <th
+                className={`px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider ${
+                  getCellProps(null, "bg-gray-50").className
+                }`}
+                style={{
+                  ...getCellProps(null).style,
+                  width: SELECT_COLUMN_WIDTH,
+                }}
+              >
                 <input
                   type="checkbox"
                   checked={isAllSelected}
@@ -299,318 +1090,100 @@ export const DataGrid: React.FC<DataGridProps> = ({
                   className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                 />
               </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                <div className="flex items-center gap-1">id</div>
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                <div className="flex items-center gap-1">Part Mark</div>
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                <div className="flex items-center gap-1">Assembly Mark</div>
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                <div className="flex items-center gap-1">Material</div>
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                <div className="flex items-center gap-1">Thickness</div>
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Quantity
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Length
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Width
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Height
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Weight
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Notes
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Actions
-              </th>
+              {columns.map(renderHeader)}
+              <th />
             </tr>
+            {columnFilters && onColumnFiltersChange && (
+              <ColumnFilterRow
+                filters={columnFilters}
+                onChange={onColumnFiltersChange}
+                columns={columns}
+                getCellProps={(column) => getCellProps(column, "bg-gray-50")}
+              />
+            )}
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
+            {data?.length === 0 && (
+              <tr>
+                <td
+                  colSpan={columnCount}
+                  className="px-6 py-8 text-center text-sm text-gray-500"
+                >
+                  No rows match the current search and filters
+                </td>
+              </tr>
+            )}
+            {paddingTop > 0 && (
+              <tr aria-hidden="true">
+                <td colSpan={columnCount} style={{ height: paddingTop }} />
+              </tr>
+            )}
             {data &&
               data?.length > 0 &&
-              data?.map((row) => (
-                <tr key={row.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+              data.slice(start, end).map((row) => (
+                <tr key={row.id} className="group hover:bg-gray-50">
+                  <td
+                    className={`px-6 py-4 whitespace-nowrap text-sm text-gray-900 ${
+                      getCellProps(null).className
+                    }`}
+                    style={getCellProps(null).style}
+                  >
                     <input
                       type="checkbox"
-                      checked={selectedRows.has(row.id)}
-                      onChange={(e) =>
-                        handleSelectRow(row.id, e.target.checked)
-                      }
+                      checked={isRowSelected(row.id)}
+                      onChange={(e) => handleSelectRow(row, e.target.checked)}
                       className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                     />
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {row.id}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {editingRow === row.id ? (
-                      <input
-                        type="text"
-                        value={editData.part_mark || ""}
-                        onChange={(e) =>
-                          handleInputChange("part_mark", e.target.value)
-                        }
-                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        placeholder="Required field"
-                        required
-                      />
-                    ) : (
-                      <span className="font-medium">
-                        {renderSafeValue(row.part_mark)}
-                      </span>
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {editingRow === row.id ? (
-                      <input
-                        type="text"
-                        value={editData.assembly_mark || ""}
-                        onChange={(e) =>
-                          handleInputChange("assembly_mark", e.target.value)
-                        }
-                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        placeholder="Required field"
-                        required
-                      />
-                    ) : (
-                      renderSafeValue(row.assembly_mark)
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {editingRow === row.id ? (
-                      <input
-                        type="text"
-                        value={editData.material || ""}
-                        onChange={(e) =>
-                          handleInputChange("material", e.target.value)
-                        }
-                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        placeholder="Required field"
-                        required
-                      />
-                    ) : (
-                      renderSafeValue(row.material)
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {editingRow === row.id ? (
-                      <input
-                        type="text"
-                        value={editData.thickness || ""}
-                        onChange={(e) =>
-                          handleInputChange("thickness", e.target.value)
-                        }
-                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        placeholder="Required field"
-                        required
-                      />
-                    ) : (
-                      renderSafeValue(row.thickness)
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {editingRow === row.id ? (
-                      <input
-                        type="number"
-                        value={editData.quantity || 1}
-                        onChange={(e) =>
-                          handleInputChange(
-                            "quantity",
-                            parseInt(e.target.value) || 1
-                          )
-                        }
-                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    ) : (
-                      renderSafeValue(row.quantity)
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {editingRow === row.id ? (
-                      <input
-                        type="number"
-                        step="0.01"
-                        value={editData.length || ""}
-                        onChange={(e) =>
-                          handleInputChange(
-                            "length",
-                            parseFloat(e.target.value) || 0
-                          )
-                        }
-                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    ) : (
-                      renderSafeValue(row.length)
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {editingRow === row.id ? (
-                      <input
-                        type="number"
-                        step="0.01"
-                        value={editData.width || ""}
-                        onChange={(e) =>
-                          handleInputChange(
-                            "width",
-                            parseFloat(e.target.value) || 0
-                          )
-                        }
-                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    ) : (
-                      renderSafeValue(row.width)
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {editingRow === row.id ? (
-                      <input
-                        type="number"
-                        step="0.01"
-                        value={editData.height || ""}
-                        onChange={(e) =>
-                          handleInputChange(
-                            "height",
-                            parseFloat(e.target.value) || 0
-                          )
-                        }
-                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    ) : (
-                      renderSafeValue(row.height)
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {editingRow === row.id ? (
-                      <input
-                        type="number"
-                        step="0.01"
-                        value={editData.weight || ""}
-                        onChange={(e) =>
-                          handleInputChange(
-                            "weight",
-                            parseFloat(e.target.value) || 0
-                          )
-                        }
-                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    ) : (
-                      renderSafeValue(row.weight)
-                    )}
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900 max-w-xs">
-                    {editingRow === row.id ? (
-                      <input
-                        type="text"
-                        value={editData.notes || ""}
-                        onChange={(e) =>
-                          handleInputChange("notes", e.target.value)
-                        }
-                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    ) : (
-                      <span className="truncate block">
-                        {renderSafeValue(row.notes)}
-                      </span>
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    {editingRow === row.id ? (
-                      <div className="flex space-x-2">
-                        <button
-                          onClick={() => handleSave(row.id)}
-                          disabled={isUpdating}
-                          className="text-green-600 hover:text-green-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
-                        >
-                          {isUpdating ? (
-                            <Loader2 className="animate-spin h-3 w-3" />
-                          ) : (
-                            <Save className="h-3 w-3" />
-                          )}
-                          {isUpdating ? "Saving..." : "Save"}
-                        </button>
-                        <button
-                          onClick={handleCancel}
-                          disabled={isUpdating}
-                          className="text-gray-600 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
-                        >
-                          <X className="h-3 w-3" />
-                          Cancel
-                        </button>
-                      </div>
-                    ) : (
-                      <div className="flex flex-col space-y-1">
-                        <div className="flex space-x-2">
-                          <button
-                            onClick={() => handleEdit(row)}
-                            className="text-blue-600 hover:text-blue-900 text-xs flex items-center gap-1"
-                          >
-                            <Edit className="h-3 w-3" />
-                            Edit
-                          </button>
-                          <button
-                            onClick={() => handleDeleteRow(row.id)}
-                            disabled={deleteRowMutation.isPending}
-                            className="text-red-600 hover:text-red-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 text-xs"
-                          >
-                            {deleteRowMutation.isPending ? (
-                              <Loader2 className="animate-spin h-3 w-3" />
-                            ) : (
-                              <Trash2 className="h-3 w-3" />
-                            )}
-                            {deleteRowMutation.isPending
-                              ? "Deleting..."
-                              : "Delete"}
-                          </button>
-                        </div>
-                        <div className="flex space-x-2">
-                          <button
-                            onClick={() => handleGenerateZPLLabel(row.id)}
-                            disabled={generateZPLLabelMutation.isPending}
-                            className="text-green-600 hover:text-green-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 text-xs"
-                          >
-                            {generateZPLLabelMutation.isPending ? (
-                              <Loader2 className="animate-spin h-3 w-3" />
-                            ) : (
-                              <Tag className="h-3 w-3" />
-                            )}
-                            ZPL
-                          </button>
-                          <button
-                            onClick={() => handleGeneratePDFLabel(row.id)}
-                            disabled={generatePDFLabelMutation.isPending}
-                            className="text-purple-600 hover:text-purple-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 text-xs"
-                          >
-                            {generatePDFLabelMutation.isPending ? (
-                              <Loader2 className="animate-spin h-3 w-3" />
-                            ) : (
-                              <FileImage className="h-3 w-3" />
-                            )}
-                            PDF
-                          </button>
-                        </div>
-                      </div>
-                    )}
-                  </td>
+                  {columns.map((column) => renderCell(row, column))}
+                  <td />
                 </tr>
               ))}
+            {paddingBottom > 0 && (
+              <tr aria-hidden="true">
+                <td colSpan={columnCount} style={{ height: paddingBottom }} />
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
 
-      {totalPages > 1 && (
+      {isScrollMode && (
+        <div className="bg-white px-4 py-3 flex items-center gap-2 border-t border-gray-200 sm:px-6 text-sm text-gray-700">
+          {isLoadingMore && (
+            <Loader2 className="animate-spin h-4 w-4 text-blue-600" />
+          )}
+          <span>
+            Loaded{" "}
+            <span className="font-medium">{data.length.toLocaleString()}</span>
+            {totalRows !== undefined && (
+              <>
+                {" "}
+                of{" "}
+                <span className="font-medium">
+                  {totalRows.toLocaleString()}
+                </span>
+              </>
+            )}{" "}
+            rows
+            {isLoadingMore && ", loading more..."}
+          </span>
+          {loadMoreFailed && !isLoadingMore && (
+            <>
+              <span className="text-red-600">Failed to load more rows</span>
+              <button
+                onClick={onLoadMore}
+                className="text-blue-600 hover:text-blue-800 flex items-center gap-1"
+              >
+                <RotateCcw className="h-3 w-3" />
+                Retry
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {!isScrollMode && totalPages > 1 && (
         <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
           <div className="flex-1 flex justify-between sm:hidden">
             <button
@@ -658,6 +1231,19 @@ export const DataGrid: React.FC<DataGridProps> = ({
           </div>
         </div>
       )}
+
+      <BulkEditDialog
+        isOpen={showBulkEdit}
+        onClose={() => setShowBulkEdit(false)}
+        rows={selectedRowData}
+        selection={getRowSelection()}
+        count={selectedCount}
+      />
+      <PasteDialog
+        isOpen={pastePreview !== null}
+        onClose={() => setPastePreview(null)}
+        preview={pastePreview}
+      />
     </div>
   );
 };
@@ -2,7 +2,15 @@ import React, { useState } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 import { ProfileModal } from "./auth/ProfileModal";
-import { Home, FileText, Users, User, LogOut } from "lucide-react";
+import {
+  Home,
+  FileText,
+  Users,
+  User,
+  LogOut,
+  Columns,
+  History,
+} from "lucide-react";
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -19,6 +27,11 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
       href: "/",
       icon: Home,
     },
+    {
+      name: "Uploads",
+      href: "/uploads",
+      icon: History,
+    },
     {
       name: "Audit Log",
       href: "/audit",
@@ -31,6 +44,11 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
       href: "/users",
       icon: Users,
     });
+    navigation.push({
+      name: "Mapping Profiles",
+      href: "/mapping-profiles",
+      icon: Columns,
+    });
   }
 
   const isCurrentPath = (path: string) => {
@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { CSVRow, RowSelection } from "../../services/api";
+import {
+  useBulkUpdateMatchingRows,
+  useBulkUpdateRows,
+} from "../../hooks/useCSVData";
+import { sanitizeCSVRow } from "../../utils/csvSafety";
+import {
+  BULK_EDIT_ACTION_LABELS,
+  BULK_EDIT_FIELDS,
+  BulkEditAction,
+  BulkEditOperation,
+  getBulkEditData,
+  getBulkEditOperationWarnings,
+  getBulkEditPreviousData,
+  previewBulkEdit,
+  sanitizeBulkEditOperation,
+  validateBulkEditOperation,
+} from "../../utils/bulkEdit";
+import { DataColumnId } from "../../utils/gridColumns";
+import { RowChangesTable } from "./RowChangesTable";
+import { AlertTriangle, Loader2, Plus, Save, Trash2, X } from "lucide-react";
+
+interface BulkEditDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Selected rows the operations are applied to; when every row matching a
+  // filter is selected, the loaded ones the preview is based on
+  rows: CSVRow[];
+  selection: RowSelection;
+  // Number of selected rows, loaded or not
+  count: number;
+}
+
+const NEW_OPERATION: BulkEditOperation = {
+  field: "material",
+  action: "set",
+  value: "",
+};
+
+// Dialog for setting or transforming fields of all selected rows, with a
+// preview of every change before the rows are saved in one request
+export const BulkEditDialog: React.FC<BulkEditDialogProps> = ({
+  isOpen,
+  onClose,
+  rows,
+  selection,
+  count,
+}) => {
+  const [operations, setOperations] = useState<BulkEditOperation[]>([
+    NEW_OPERATION,
+  ]);
+  const bulkUpdateMutation = useBulkUpdateRows();
+  const bulkUpdateMatchingMutation = useBulkUpdateMatchingRows();
+  // Rows selected by filter are changed on the server, which skips the rows
+  // whose new values break a column rule
+  const isFilterSelection = "filter" in selection;
+  const isSaving =
+    bulkUpdateMutation.isPending || bulkUpdateMatchingMutation.isPending;
+
+  // Start from a single empty operation each time the dialog opens
+  useEffect(() => {
+    if (isOpen) setOperations([NEW_OPERATION]);
+  }, [isOpen]);
+
+  // Errors are shown once a value is entered; until then an incomplete
+  // operation only holds back the preview
+  const operationErrors = operations.map(validateBulkEditOperation);
+  const hasOperationErrors = operationErrors.some(Boolean);
+  const operationWarnings = operations.map(getBulkEditOperationWarnings);
+  const previews = useMemo(
+    () => (hasOperationErrors ? [] : previewBulkEdit(rows, operations)),
+    [rows, operations, hasOperationErrors]
+  );
+  const validPreviews = previews.filter(
+    (preview) => Object.keys(preview.errors).length === 0
+  );
+  const invalidCount = previews.length - validPreviews.length;
+  const saveCount = isFilterSelection ? count : validPreviews.length;
+
+  const updateOperation = (
+    index: number,
+    changes: Partial<BulkEditOperation>
+  ) => {
+    setOperations((prev) =>
+      prev.map((operation, i) =>
+        i === index ? { ...operation, ...changes } : operation
+      )
+    );
+  };
+
+  const handleFieldChange = (index: number, field: DataColumnId) => {
+    const actions =
+      BULK_EDIT_FIELDS.find((item) => item.field === field)?.actions || [];
+    // Keep the action when the new field supports it
+    const action = actions.includes(operations[index].action)
+      ? operations[index].action
+      : actions[0];
+    updateOperation(index, { field, action });
+  };
+
+  const handleSave = () => {
+    if ("filter" in selection) {
+      if (hasOperationErrors) return;
+      bulkUpdateMatchingMutation.mutate(
+        {
+          filter: selection.filter,
+          excludeIds: selection.excludeIds,
+          // Sanitize the written text before sending to server
+          operations: operations.map(sanitizeBulkEditOperation),
+        },
+        { onSuccess: onClose }
+      );
+      return;
+    }
+    if (validPreviews.length === 0) return;
+    bulkUpdateMutation.mutate(
+      validPreviews.map((preview) => ({
+        id: preview.row.id,
+        // Sanitize the changed values before sending to server
+        data: sanitizeCSVRow(getBulkEditData(preview)),
+        previous: getBulkEditPreviousData(preview),
+      })),
+      { onSuccess: onClose }
+    );
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Bulk Edit {count.toLocaleString()} Row(s)
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {/* Operations */}
+          <div className="space-y-3 mb-6">
+            {operations.map((operation, index) => {
+              const actions =
+                BULK_EDIT_FIELDS.find((item) => item.field === operation.field)
+                  ?.actions || [];
+
+              return (
+                <div key={index} className="flex flex-wrap items-start gap-2">
+                  <select
+                    value={operation.field}
+                    onChange={(e) =>
+                      handleFieldChange(index, e.target.value as DataColumnId)
+                    }
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    aria-label="Field"
+                  >
+                    {BULK_EDIT_FIELDS.map((item) => (
+                      <option key={item.field} value={item.field}>
+                        {item.label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={operation.action}
+                    onChange={(e) =>
+                      updateOperation(index, {
+                        action: e.target.value as BulkEditAction,
+                      })
+                    }
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    aria-label="Change"
+                  >
+                    {actions.map((action) => (
+                      <option key={action} value={action}>
+                        {BULK_EDIT_ACTION_LABELS[action]}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="flex-1 min-w-[10rem]">
+                    <input
+                      type="text"
+                      value={operation.value}
+                      onChange={(e) =>
+                        updateOperation(index, { value: e.target.value })
+                      }
+                      placeholder={
+                        operation.action === "set" ? "New value" : "Value"
+                      }
+                      className={`w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                        operationErrors[index] && operation.value
+                          ? "border-red-400 bg-red-50"
+                          : "border-gray-300"
+                      }`}
+                    />
+                    {operationErrors[index] && operation.value && (
+                      <p className="mt-1 text-xs text-red-600">
+                        {operationErrors[index]}
+                      </p>
+                    )}
+                    {operationWarnings[index].map((warning) => (
+                      <p key={warning} className="mt-1 text-xs text-orange-600">
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setOperations((prev) =>
+                        prev.filter((_, i) => i !== index)
+                      )
+                    }
+                    disabled={operations.length === 1}
+                    className="p-2 text-red-600 hover:text-red-900 disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Remove change"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              );
+            })}
+            <button
+              type="button"
+              onClick={() => setOperations((prev) => [...prev, NEW_OPERATION])}
+              className="text-sm text-blue-600 hover:text-blue-500 flex items-center gap-1"
+            >
+              <Plus className="h-3 w-3" />
+              Add another change
+            </button>
+          </div>
+
+          {/* Preview */}
+          <h3 className="text-sm font-medium text-gray-900 mb-2">
+            {isFilterSelection
+              ? `Preview of the loaded rows: ${previews.length} of ${rows.length} row(s) change`
+              : `Preview: ${previews.length} of ${rows.length} row(s) change`}
+          </h3>
+          {isFilterSelection && (
+            <p className="mb-3 text-sm text-gray-600">
+              The changes are applied on the server to all{" "}
+              {count.toLocaleString()} matching rows; rows that would break a
+              column rule are skipped there too
+            </p>
+          )}
+          {invalidCount > 0 && (
+            <div className="mb-3 p-3 rounded-lg bg-red-50 border border-red-200 flex items-center gap-2 text-sm text-red-800">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {invalidCount} row(s) would break a column rule and will be
+              skipped
+            </div>
+          )}
+          <RowChangesTable previews={previews} />
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={
+              saveCount === 0 ||
+              (isFilterSelection && hasOperationErrors) ||
+              isSaving
+            }
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {isSaving ? (
+              <Loader2 className="animate-spin h-4 w-4" />
+            ) : (
+              <Save className="h-4 w-4" />
+            )}
+            {isSaving
+              ? "Saving..."
+              : `Update ${saveCount.toLocaleString()} row(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useEffect, useRef } from "react";
+import { validateCSVContent } from "../../utils/csvSafety";
+
+interface CellEditorProps {
+  value: string;
+  // Numeric cells get a numeric keyboard and no formula warnings
+  numeric: boolean;
+  // Column rule the value breaks, if any
+  error: string | null;
+  onChange: (value: string) => void;
+  // Saves the value, then moves the active cell by rows and columns;
+  // returns false when the value is invalid and editing goes on
+  onCommit: (rowDelta: number, fieldDelta: number) => boolean;
+  onCancel: () => void;
+}
+
+// Input replacing a grid cell while it is edited: Enter saves and moves down,
+// Tab saves and moves right (Shift goes the other way), Escape cancels and
+// leaving the cell saves it
+export const CellEditor: React.FC<CellEditorProps> = ({
+  value,
+  numeric,
+  error,
+  onChange,
+  onCommit,
+  onCancel,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Set once a key has ended editing, so the blur that follows does not
+  // save a second time
+  const isDoneRef = useRef(false);
+  const validation = numeric ? null : validateCSVContent(value);
+
+  // Start with the caret after the value, e.g. after the typed character
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    input.focus();
+    input.setSelectionRange(input.value.length, input.value.length);
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      isDoneRef.current = onCommit(e.shiftKey ? -1 : 1, 0);
+    } else if (e.key === "Tab") {
+      isDoneRef.current = onCommit(0, e.shiftKey ? -1 : 1);
+    } else if (e.key === "Escape") {
+      isDoneRef.current = true;
+      onCancel();
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="text"
+        inputMode={numeric ? "decimal" : undefined}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => {
+          if (!isDoneRef.current) onCommit(0, 0);
+        }}
+        aria-invalid={!!error}
+        className={`w-full px-2 py-1 border rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+          error ? "border-red-400 bg-red-50" : "border-gray-300"
+        }`}
+      />
+      {error && (
+        <p className="mt-1 text-xs text-red-600 whitespace-normal">{error}</p>
+      )}
+      {validation && !validation.isSafe && (
+        <p className="mt-1 text-xs text-orange-600 whitespace-normal">
+          {validation.warnings.join("; ")}
+        </p>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,195 @@
+import React from "react";
+import {
+  ColumnFilters,
+  EMPTY_COLUMN_FILTERS,
+  hasColumnFilters,
+  QuantityOperator,
+} from "../../utils/gridFilters";
+import { VisibleColumn } from "../../utils/gridColumns";
+import { X } from "lucide-react";
+
+interface ColumnFilterRowProps {
+  filters: ColumnFilters;
+  onChange: (filters: ColumnFilters) => void;
+  // Visible grid columns, in display order
+  columns: VisibleColumn[];
+  // Class names and style of a column's cell, for pinned columns; null is
+  // the row selection column
+  getCellProps: (column: VisibleColumn | null) => {
+    className: string;
+    style?: React.CSSProperties;
+  };
+}
+
+const QUANTITY_OPERATORS: { value: QuantityOperator; label: string }[] = [
+  { value: "gt", label: ">" },
+  { value: "gte", label: "≥" },
+  { value: "eq", label: "=" },
+  { value: "lte", label: "≤" },
+  { value: "lt", label: "<" },
+];
+
+const inputClassName =
+  "w-full min-w-[5rem] px-2 py-1 border border-gray-300 rounded text-xs font-normal normal-case text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+const cellClassName = "px-6 py-2 align-top";
+
+// Filter inputs under the data grid's headers, one cell per column; the
+// updated date range sits under the actions column
+export const ColumnFilterRow: React.FC<ColumnFilterRowProps> = ({
+  filters,
+  onChange,
+  columns,
+  getCellProps,
+}) => {
+  const update = (changes: Partial<ColumnFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const renderTextFilter = (
+    key: "part_mark" | "assembly_mark" | "materials" | "notes",
+    placeholder: string,
+    title: string
+  ) => (
+    <input
+      type="text"
+      value={filters[key]}
+      onChange={(e) => update({ [key]: e.target.value })}
+      placeholder={placeholder}
+      title={title}
+      className={inputClassName}
+    />
+  );
+
+  const renderFilter = (column: VisibleColumn) => {
+    switch (column.id) {
+      case "part_mark":
+        return renderTextFilter("part_mark", "e.g. P1*", "Use * as a wildcard");
+      case "assembly_mark":
+        return renderTextFilter(
+          "assembly_mark",
+          "e.g. A12*",
+          "Use * as a wildcard"
+        );
+      case "material":
+        return renderTextFilter(
+          "materials",
+          "e.g. S355, S275",
+          "Comma-separated list of materials"
+        );
+      case "thickness":
+        return (
+          <div className="flex flex-col gap-1">
+            <input
+              type="number"
+              value={filters.thickness_min}
+              onChange={(e) => update({ thickness_min: e.target.value })}
+              placeholder="Min"
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              value={filters.thickness_max}
+              onChange={(e) => update({ thickness_max: e.target.value })}
+              placeholder="Max"
+              className={inputClassName}
+            />
+          </div>
+        );
+      case "quantity":
+        return (
+          <div className="flex gap-1">
+            <select
+              value={filters.quantity_operator}
+              onChange={(e) =>
+                update({
+                  quantity_operator: e.target.value as QuantityOperator,
+                })
+              }
+              className="px-1 py-1 border border-gray-300 rounded text-xs font-normal text-gray-900"
+              title="Comparison"
+            >
+              {QUANTITY_OPERATORS.map((operator) => (
+                <option key={operator.value} value={operator.value}>
+                  {operator.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={filters.quantity}
+              onChange={(e) => update({ quantity: e.target.value })}
+              placeholder="N"
+              className={inputClassName}
+            />
+          </div>
+        );
+      case "notes":
+        return renderTextFilter(
+          "notes",
+          "Contains...",
+          "Notes containing the text"
+        );
+      case "actions":
+        return (
+          <div className="flex flex-col gap-1" title="Updated between">
+            <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Updated
+            </span>
+            <input
+              type="date"
+              value={filters.updated_from}
+              onChange={(e) => update({ updated_from: e.target.value })}
+              aria-label="Updated from"
+              className={inputClassName}
+            />
+            <input
+              type="date"
+              value={filters.updated_to}
+              onChange={(e) => update({ updated_to: e.target.value })}
+              aria-label="Updated to"
+              className={inputClassName}
+            />
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderCell = (
+    column: VisibleColumn | null,
+    content: React.ReactNode
+  ) => {
+    const { className, style } = getCellProps(column);
+    return (
+      <td
+        key={column ? column.id : "select"}
+        className={`${cellClassName} ${className}`}
+        style={style}
+      >
+        {content}
+      </td>
+    );
+  };
+
+  return (
+    <tr className="bg-gray-50">
+      {renderCell(
+        null,
+        hasColumnFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_COLUMN_FILTERS)}
+            className="text-gray-500 hover:text-gray-700"
+            title="Clear column filters"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )
+      )}
+      {columns.map((column) => renderCell(column, renderFilter(column)))}
+      <td className={cellClassName} />
+    </tr>
+  );
+};
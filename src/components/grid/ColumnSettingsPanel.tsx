@@ -0,0 +1,163 @@
+import React from "react";
+import {
+  ColumnLayout,
+  DEFAULT_COLUMN_LAYOUT,
+  GRID_COLUMNS,
+  GridColumnId,
+  moveColumn,
+  PinSide,
+  setColumnHidden,
+  setColumnPin,
+} from "../../utils/gridColumns";
+import {
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  ChevronDown,
+  ChevronUp,
+  RotateCcw,
+} from "lucide-react";
+
+interface ColumnSettingsPanelProps {
+  layout: ColumnLayout;
+  onChange: (update: (layout: ColumnLayout) => ColumnLayout) => void;
+}
+
+const getColumnLabel = (id: GridColumnId) =>
+  GRID_COLUMNS.find((column) => column.id === id)?.label || id;
+
+// Column list above the data grid for showing, ordering and pinning columns;
+// works by touch as well, where headers cannot be dragged
+export const ColumnSettingsPanel: React.FC<ColumnSettingsPanelProps> = ({
+  layout,
+  onChange,
+}) => {
+  const visibleCount = layout.order.length - layout.hidden.length;
+
+  const renderPinButton = (id: GridColumnId, side: PinSide) => {
+    const isPinned = layout.pinned[id] === side;
+    const Icon = side === "left" ? ArrowLeftToLine : ArrowRightToLine;
+
+    return (
+      <button
+        type="button"
+        onClick={() =>
+          onChange((current) =>
+            setColumnPin(current, id, isPinned ? null : side)
+          )
+        }
+        className={`p-1 rounded ${
+          isPinned
+            ? "bg-blue-100 text-blue-700"
+            : "text-gray-400 hover:text-gray-700"
+        }`}
+        title={isPinned ? "Unpin" : `Pin to the ${side}`}
+        aria-pressed={isPinned}
+      >
+        <Icon className="h-4 w-4" />
+      </button>
+    );
+  };
+
+  return (
+    <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm text-gray-600">
+          Show, order and pin columns; drag a header to move it or its right
+          edge to resize it
+        </p>
+        <button
+          type="button"
+          onClick={() => onChange(() => DEFAULT_COLUMN_LAYOUT)}
+          className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1"
+        >
+          <RotateCcw className="h-3 w-3" />
+          Reset columns
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 bg-white border">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Show
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Column
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Order
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Pin
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {layout.order.map((id, index) => {
+              const isHidden = layout.hidden.includes(id);
+
+              return (
+                <tr key={id}>
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={!isHidden}
+                      onChange={(e) =>
+                        onChange((current) =>
+                          setColumnHidden(current, id, !e.target.checked)
+                        )
+                      }
+                      // At least one column stays visible
+                      disabled={!isHidden && visibleCount === 1}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      aria-label={`Show ${getColumnLabel(id)}`}
+                    />
+                  </td>
+                  <td
+                    className={`px-3 py-2 whitespace-nowrap text-sm ${
+                      isHidden ? "text-gray-400" : "text-gray-900"
+                    }`}
+                  >
+                    {getColumnLabel(id)}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        onChange((current) =>
+                          moveColumn(current, id, layout.order[index - 1])
+                        )
+                      }
+                      disabled={index === 0}
+                      className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Move up"
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        onChange((current) =>
+                          moveColumn(current, id, layout.order[index + 1])
+                        )
+                      }
+                      disabled={index === layout.order.length - 1}
+                      className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Move down"
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </button>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {renderPinButton(id, "left")}
+                    {renderPinButton(id, "right")}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React from "react";
+import { useBulkUpdateRows } from "../../hooks/useCSVData";
+import { sanitizeCSVRow } from "../../utils/csvSafety";
+import { getBulkEditData, getBulkEditPreviousData } from "../../utils/bulkEdit";
+import { PastePreview } from "../../utils/gridPaste";
+import { RowChangesTable } from "./RowChangesTable";
+import { AlertTriangle, ClipboardPaste, Loader2, X } from "lucide-react";
+
+interface PasteDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Changes of the pasted block, previewed before saving
+  preview: PastePreview | null;
+}
+
+// Confirms a block pasted into the grid: lists every changed cell and saves
+// the rows that pass their column rules in one request
+export const PasteDialog: React.FC<PasteDialogProps> = ({
+  isOpen,
+  onClose,
+  preview,
+}) => {
+  const bulkUpdateMutation = useBulkUpdateRows();
+
+  if (!isOpen || !preview) return null;
+
+  const validRows = preview.rows.filter(
+    (row) => Object.keys(row.errors).length === 0
+  );
+  const invalidCount = preview.rows.length - validRows.length;
+
+  const handleSave = () => {
+    if (validRows.length === 0) return;
+    bulkUpdateMutation.mutate(
+      validRows.map((row) => ({
+        id: row.row.id,
+        // Sanitize the pasted values before sending to server
+        data: sanitizeCSVRow(getBulkEditData(row)),
+        previous: getBulkEditPreviousData(row),
+      })),
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Paste into {preview.rows.length} Row(s)
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {preview.rows.length === 0 && (
+            <p className="text-sm text-gray-600">
+              The pasted cells match the current values; nothing changes.
+            </p>
+          )}
+          {preview.ignoredCells > 0 && (
+            <p className="mb-3 text-sm text-gray-600">
+              {preview.ignoredCells} pasted cell(s) fall outside the loaded rows
+              and visible columns, or on the id column, and are ignored
+            </p>
+          )}
+          {invalidCount > 0 && (
+            <div className="mb-3 p-3 rounded-lg bg-red-50 border border-red-200 flex items-center gap-2 text-sm text-red-800">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {invalidCount} row(s) would break a column rule and will be
+              skipped
+            </div>
+          )}
+          <RowChangesTable previews={preview.rows} />
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={validRows.length === 0 || bulkUpdateMutation.isPending}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {bulkUpdateMutation.isPending ? (
+              <Loader2 className="animate-spin h-4 w-4" />
+            ) : (
+              <ClipboardPaste className="h-4 w-4" />
+            )}
+            {bulkUpdateMutation.isPending
+              ? "Saving..."
+              : `Update ${validRows.length} row(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
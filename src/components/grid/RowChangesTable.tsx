@@ -0,0 +1,94 @@
+import React from "react";
+import { BulkEditRowPreview } from "../../utils/bulkEdit";
+import { DataColumnId, GRID_COLUMNS } from "../../utils/gridColumns";
+
+interface RowChangesTableProps {
+  // Changed rows, with the rules their new values break and any warnings
+  previews: Array<BulkEditRowPreview & { warnings?: string[] }>;
+}
+
+// Number of changed rows listed
+const MAX_PREVIEW_ROWS = 50;
+
+const getFieldLabel = (field: DataColumnId) =>
+  GRID_COLUMNS.find((column) => column.id === field)?.label || field;
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "-" : String(value);
+
+// Old and new values of each changed row, confirmed before several rows are
+// saved at once; rows breaking a column rule are highlighted
+export const RowChangesTable: React.FC<RowChangesTableProps> = ({
+  previews,
+}) => {
+  if (previews.length === 0) return null;
+
+  return (
+    <>
+      <div className="overflow-x-auto border rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Part Mark
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Assembly Mark
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Changes
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {previews.slice(0, MAX_PREVIEW_ROWS).map((preview) => {
+              const errors = Object.values(preview.errors);
+
+              return (
+                <tr
+                  key={preview.row.id}
+                  className={errors.length > 0 ? "bg-red-50" : ""}
+                >
+                  <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {preview.row.part_mark}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                    {preview.row.assembly_mark}
+                  </td>
+                  <td className="px-3 py-2 text-sm text-gray-900">
+                    {preview.changes.map((change) => (
+                      <div key={change.field}>
+                        <span className="text-gray-500">
+                          {getFieldLabel(change.field)}:
+                        </span>{" "}
+                        <span className="line-through text-gray-400">
+                          {formatValue(change.from)}
+                        </span>{" "}
+                        → {formatValue(change.to)}
+                      </div>
+                    ))}
+                    {errors.map((error) => (
+                      <div key={error} className="text-xs text-red-600">
+                        {error}
+                      </div>
+                    ))}
+                    {preview.warnings?.map((warning) => (
+                      <div key={warning} className="text-xs text-orange-600">
+                        {warning}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {previews.length > MAX_PREVIEW_ROWS && (
+        <p className="text-xs text-gray-500 mt-1">
+          and {previews.length - MAX_PREVIEW_ROWS} more
+        </p>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useState } from "react";
+import { useAuth } from "../../contexts/AuthContext";
+import {
+  useSavedViews,
+  useCreateSavedView,
+  useUpdateSavedView,
+  useDeleteSavedView,
+} from "../../hooks/useSavedViews";
+import { SavedViewResponse, SavedViewState } from "../../services/api";
+import { isSameViewState, normalizeViewState } from "../../utils/gridUrlState";
+import { Bookmark, Save, Trash2, Users, X } from "lucide-react";
+
+interface SavedViewsBarProps {
+  // Search, sort, filters, page size and hidden columns currently shown
+  // in the grid
+  currentState: SavedViewState;
+  onApply: (state: SavedViewState) => void;
+}
+
+// Dropdown of saved grid views above the data grid, with saving, updating,
+// sharing and deleting of the user's own views
+export const SavedViewsBar: React.FC<SavedViewsBarProps> = ({
+  currentState,
+  onApply,
+}) => {
+  const { user } = useAuth();
+  const { data: viewsData } = useSavedViews();
+  const createViewMutation = useCreateSavedView();
+  const updateViewMutation = useUpdateSavedView();
+  const deleteViewMutation = useDeleteSavedView();
+  const [selectedViewId, setSelectedViewId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [isShared, setIsShared] = useState(false);
+
+  const views = viewsData?.data || [];
+  const ownViews = views.filter((view) => view.user_id === user?.id);
+  const sharedViews = views.filter((view) => view.user_id !== user?.id);
+  const selectedView = views.find((view) => view.id === selectedViewId);
+  const isOwnView = !!selectedView && selectedView.user_id === user?.id;
+  const isModified =
+    !!selectedView &&
+    !isSameViewState(normalizeViewState(selectedView.state), currentState);
+  const isMutating =
+    createViewMutation.isPending ||
+    updateViewMutation.isPending ||
+    deleteViewMutation.isPending;
+
+  const handleSelect = (value: string) => {
+    const view = views.find((item) => item.id === Number(value));
+    setSelectedViewId(view ? view.id : null);
+    if (view) {
+      onApply(normalizeViewState(view.state));
+    }
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    createViewMutation.mutate(
+      { name: name.trim(), state: currentState, is_shared: isShared },
+      {
+        onSuccess: (response) => {
+          setSelectedViewId(
+            (response.data as SavedViewResponse).data?.id ?? null
+          );
+          setIsSaving(false);
+          setName("");
+          setIsShared(false);
+        },
+      }
+    );
+  };
+
+  const handleUpdate = () => {
+    if (!selectedView) return;
+    updateViewMutation.mutate({
+      id: selectedView.id,
+      data: { state: currentState },
+    });
+  };
+
+  const handleToggleShared = () => {
+    if (!selectedView) return;
+    updateViewMutation.mutate({
+      id: selectedView.id,
+      data: { is_shared: !selectedView.is_shared },
+    });
+  };
+
+  const handleDelete = () => {
+    if (!selectedView) return;
+    if (
+      window.confirm(
+        `Are you sure you want to delete the view "${selectedView.name}"?`
+      )
+    ) {
+      deleteViewMutation.mutate(selectedView.id, {
+        onSuccess: () => setSelectedViewId(null),
+      });
+    }
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-3">
+      <div className="flex items-center gap-2">
+        <Bookmark className="h-4 w-4 text-gray-500" />
+        <label className="text-sm font-medium text-gray-700">Saved views</label>
+        <select
+          value={selectedView ? selectedView.id : ""}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={isMutating}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">Current view</option>
+          {ownViews.length > 0 && (
+            <optgroup label="My views">
+              {ownViews.map((view) => (
+                <option key={view.id} value={view.id}>
+                  {view.name}
+                  {view.is_shared ? " (shared)" : ""}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {sharedViews.length > 0 && (
+            <optgroup label="Shared views">
+              {sharedViews.map((view) => (
+                <option key={view.id} value={view.id}>
+                  {view.name}
+                  {view.user_name ? ` (${view.user_name})` : ""}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {isModified && (
+          <span className="text-xs text-gray-500">(modified)</span>
+        )}
+      </div>
+
+      {isOwnView && (
+        <div className="flex items-center gap-3 text-sm">
+          {isModified && (
+            <button
+              type="button"
+              onClick={handleUpdate}
+              disabled={isMutating}
+              className="text-blue-600 hover:text-blue-500 underline disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Update view
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleToggleShared}
+            disabled={isMutating}
+            className="text-gray-600 hover:text-gray-900 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Users className="h-3 w-3" />
+            {selectedView.is_shared ? "Stop sharing" : "Share with all users"}
+          </button>
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={isMutating}
+            className="text-red-600 hover:text-red-900 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="h-3 w-3" />
+            Delete
+          </button>
+        </div>
+      )}
+
+      {isSaving ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave();
+            }}
+            placeholder="View name"
+            autoFocus
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <label className="flex items-center gap-1 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={isShared}
+              onChange={(e) => setIsShared(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            Share with all users
+          </label>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!name.trim() || createViewMutation.isPending}
+            className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+          >
+            <Save className="h-3 w-3" />
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsSaving(false)}
+            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1"
+          >
+            <X className="h-3 w-3" />
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsSaving(true)}
+          className="text-sm text-blue-600 hover:text-blue-500 underline"
+        >
+          Save as new view
+        </button>
+      )}
+    </div>
+  );
+};
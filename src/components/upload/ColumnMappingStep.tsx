@@ -0,0 +1,282 @@
+import React, { useState } from "react";
+import {
+  ColumnMapping,
+  ColumnMappingSuggestion,
+  REQUIRED_HEADERS,
+  OPTIONAL_HEADERS,
+  createMissingHeadersMessage,
+} from "../../utils/headerValidation";
+import { profileToColumnMapping } from "../../utils/mappingProfiles";
+import { MappingProfile } from "../../services/api";
+import { Columns, Check, X, AlertTriangle } from "lucide-react";
+
+export interface SaveProfileOptions {
+  name: string;
+  source_system: string;
+}
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  previewRows: string[][];
+  initialMapping: ColumnMapping;
+  suggestions: ColumnMappingSuggestion[];
+  profiles?: MappingProfile[];
+  onApply: (mapping: ColumnMapping, saveAs: SaveProfileOptions | null) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+export const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({
+  headers,
+  previewRows,
+  initialMapping,
+  suggestions,
+  profiles = [],
+  onApply,
+  onCancel,
+  disabled = false,
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(() =>
+    headers.map((source, index) => ({
+      source,
+      target: initialMapping[index]?.target ?? null,
+    }))
+  );
+
+  const mappedTargets = mapping
+    .map((column) => column.target)
+    .filter((target): target is string => !!target);
+  const missingHeaders = REQUIRED_HEADERS.filter(
+    (required) => !mappedTargets.includes(required)
+  );
+  const duplicateTargets = mappedTargets.filter(
+    (target, index) => mappedTargets.indexOf(target) !== index
+  );
+  const [saveAsProfile, setSaveAsProfile] = useState(false);
+  const [profileName, setProfileName] = useState("");
+  const [sourceSystem, setSourceSystem] = useState("");
+
+  const canApply =
+    missingHeaders.length === 0 &&
+    duplicateTargets.length === 0 &&
+    (!saveAsProfile || profileName.trim() !== "");
+
+  const handleLoadProfile = (profileId: string) => {
+    const profile = profiles.find((p) => p.id === Number(profileId));
+    if (profile) {
+      setMapping(profileToColumnMapping(profile, headers));
+    }
+  };
+
+  const handleApply = () => {
+    onApply(
+      mapping,
+      saveAsProfile
+        ? { name: profileName.trim(), source_system: sourceSystem.trim() }
+        : null
+    );
+  };
+
+  const handleTargetChange = (index: number, target: string) => {
+    setMapping((prev) =>
+      prev.map((column, columnIndex) =>
+        columnIndex === index ? { ...column, target: target || null } : column
+      )
+    );
+  };
+
+  const renderSuggestion = (index: number) => {
+    const suggestion = suggestions[index];
+    if (!suggestion?.target) {
+      return <span className="text-gray-400">No match</span>;
+    }
+    if (suggestion.confidence >= 1) {
+      return (
+        <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+          Exact
+        </span>
+      );
+    }
+    return (
+      <span
+        className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800"
+        title={`Suggested ${suggestion.target}`}
+      >
+        {Math.round(suggestion.confidence * 100)}% match
+      </span>
+    );
+  };
+
+  return (
+    <div className="p-4 rounded-lg border border-blue-200 bg-blue-50">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2">
+          <Columns className="h-4 w-4 text-blue-600" />
+          <h3 className="text-sm font-medium text-gray-900">Map Columns</h3>
+        </div>
+        {profiles.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => handleLoadProfile(e.target.value)}
+            disabled={disabled}
+            className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+          >
+            <option value="">Load mapping profile...</option>
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+                {profile.source_system ? ` (${profile.source_system})` : ""}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      <p className="text-xs text-gray-600 mb-3">
+        Choose which field each column of the file contains. Suggestions are
+        pre-filled from known header names.
+      </p>
+
+      <div className="overflow-x-auto bg-white rounded border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Column in file
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Example values
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Maps to
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Suggestion
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {mapping.map((column, index) => (
+              <tr key={index}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {column.source || (
+                    <span className="text-gray-400 italic">(empty header)</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-600 max-w-xs">
+                  <span className="truncate block">
+                    {previewRows
+                      .map((row) => row[index])
+                      .filter((value) => value !== undefined && value !== "")
+                      .join(", ") || "-"}
+                  </span>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm">
+                  <select
+                    value={column.target || ""}
+                    onChange={(e) => handleTargetChange(index, e.target.value)}
+                    disabled={disabled}
+                    className={`w-full px-2 py-1 border rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 ${
+                      column.target && duplicateTargets.includes(column.target)
+                        ? "border-red-400"
+                        : "border-gray-300"
+                    }`}
+                  >
+                    <option value="">Ignore column</option>
+                    <optgroup label="Required">
+                      {REQUIRED_HEADERS.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Optional">
+                      {OPTIONAL_HEADERS.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </optgroup>
+                  </select>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm">
+                  {renderSuggestion(index)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(missingHeaders.length > 0 || duplicateTargets.length > 0) && (
+        <div className="mt-3 flex items-start gap-2 text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-red-400" />
+          <div>
+            {missingHeaders.length > 0 && (
+              <p>{createMissingHeadersMessage(missingHeaders)}</p>
+            )}
+            {duplicateTargets.length > 0 && (
+              <p>
+                Mapped more than once:{" "}
+                {Array.from(new Set(duplicateTargets)).join(", ")}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 space-y-2">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={saveAsProfile}
+            onChange={(e) => setSaveAsProfile(e.target.checked)}
+            disabled={disabled}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span className="ml-2 text-sm text-gray-700">
+            Save as mapping profile for files with these headers
+          </span>
+        </label>
+        {saveAsProfile && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Profile name (required)"
+              disabled={disabled}
+              className="px-3 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="text"
+              value={sourceSystem}
+              onChange={(e) => setSourceSystem(e.target.value)}
+              placeholder="Source system (e.g. Tekla, SDS/2)"
+              disabled={disabled}
+              className="px-3 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          disabled={disabled}
+          className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+        >
+          <X className="h-3 w-3" />
+          Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={disabled || !canApply}
+          className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+        >
+          <Check className="h-3 w-3" />
+          Apply Mapping
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from "react";
+import {
+  CSVDialect,
+  CSVDelimiter,
+  CSVEncoding,
+  DELIMITER_OPTIONS,
+  ENCODING_OPTIONS,
+  getDelimiterLabel,
+  getEncodingLabel,
+} from "../../utils/csvDialect";
+import { Settings2 } from "lucide-react";
+
+interface DialectSelectorProps {
+  dialect: CSVDialect;
+  detectedDialect: CSVDialect;
+  onChange: (dialect: CSVDialect) => void;
+  disabled?: boolean;
+}
+
+export const DialectSelector: React.FC<DialectSelectorProps> = ({
+  dialect,
+  detectedDialect,
+  onChange,
+  disabled = false,
+}) => {
+  const isOverridden =
+    dialect.delimiter !== detectedDialect.delimiter ||
+    dialect.encoding !== detectedDialect.encoding;
+
+  return (
+    <div className="p-4 rounded-lg bg-gray-50 border border-gray-200">
+      <div className="flex items-center gap-2 mb-3">
+        <Settings2 className="h-4 w-4 text-gray-500" />
+        <h3 className="text-sm font-medium text-gray-900">File Format</h3>
+        <span className="text-xs text-gray-500">
+          Detected {getDelimiterLabel(detectedDialect.delimiter)},{" "}
+          {getEncodingLabel(detectedDialect.encoding)}
+        </span>
+        {isOverridden && (
+          <button
+            onClick={() => onChange(detectedDialect)}
+            disabled={disabled}
+            className="text-xs text-blue-600 hover:text-blue-500 underline disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reset to detected
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Delimiter
+          </label>
+          <select
+            value={dialect.delimiter}
+            onChange={(e) =>
+              onChange({
+                ...dialect,
+                delimiter: e.target.value as CSVDelimiter,
+              })
+            }
+            disabled={disabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+          >
+            {DELIMITER_OPTIONS.map((option) => (
+              <option key={option.label} value={option.value}>
+                {option.label}
+                {option.value === detectedDialect.delimiter
+                  ? " (detected)"
+                  : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Encoding
+          </label>
+          <select
+            value={dialect.encoding}
+            onChange={(e) =>
+              onChange({
+                ...dialect,
+                encoding: e.target.value as CSVEncoding,
+              })
+            }
+            disabled={disabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+          >
+            {ENCODING_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+                {option.value === detectedDialect.encoding ? " (detected)" : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
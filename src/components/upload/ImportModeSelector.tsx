@@ -0,0 +1,80 @@
+import React, { useId } from "react";
+import { ImportMode } from "../../services/api";
+import { GitMerge } from "lucide-react";
+
+interface ImportModeSelectorProps {
+  importMode: ImportMode;
+  onChange: (importMode: ImportMode) => void;
+  disabled?: boolean;
+}
+
+const IMPORT_MODE_OPTIONS: {
+  value: ImportMode;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "append",
+    label: "Append",
+    description: "Add every row of the file as a new row",
+  },
+  {
+    value: "upsert",
+    label: "Update existing",
+    description:
+      "Update rows with the same PartMark and AssemblyMark, add the others",
+  },
+  {
+    value: "replace",
+    label: "Replace all",
+    description: "Delete all stored rows and import the file",
+  },
+];
+
+export const ImportModeSelector: React.FC<ImportModeSelectorProps> = ({
+  importMode,
+  onChange,
+  disabled = false,
+}) => {
+  // Each queued file has its own radio group
+  const groupName = useId();
+
+  return (
+    <div className="p-4 rounded-lg bg-gray-50 border border-gray-200">
+      <div className="flex items-center gap-2 mb-3">
+        <GitMerge className="h-4 w-4 text-gray-500" />
+        <h3 className="text-sm font-medium text-gray-900">Import Mode</h3>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {IMPORT_MODE_OPTIONS.map((option) => (
+          <label
+            key={option.value}
+            className={`flex items-start gap-2 p-2 rounded-md border text-sm cursor-pointer ${
+              importMode === option.value
+                ? "border-blue-400 bg-blue-50"
+                : "border-gray-200 bg-white"
+            } ${disabled ? "opacity-50 cursor-not-allowed" : ""}`}
+          >
+            <input
+              type="radio"
+              name={groupName}
+              value={option.value}
+              checked={importMode === option.value}
+              onChange={() => onChange(option.value)}
+              disabled={disabled}
+              className="mt-0.5"
+            />
+            <span>
+              <span className="block font-medium text-gray-900">
+                {option.label}
+              </span>
+              <span className="block text-xs text-gray-500">
+                {option.description}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
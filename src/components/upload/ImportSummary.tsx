@@ -0,0 +1,190 @@
+import React, { useState } from "react";
+import { ImportPreview } from "../../services/api";
+import { COLUMN_RULES } from "../../utils/columnRules";
+import { ClipboardList, Check, X, AlertTriangle } from "lucide-react";
+
+const PAGE_SIZE = 25;
+
+interface ImportSummaryProps {
+  preview: ImportPreview;
+  onConfirm: () => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+const getFieldLabel = (field: string) =>
+  COLUMN_RULES.find((rule) => rule.field === field)?.header || field;
+
+const formatValue = (value: string | number | null) =>
+  value === null || value === "" ? "(empty)" : String(value);
+
+export const ImportSummary: React.FC<ImportSummaryProps> = ({
+  preview,
+  onConfirm,
+  onCancel,
+  disabled = false,
+}) => {
+  const [page, setPage] = useState(1);
+
+  const totalPages = Math.max(1, Math.ceil(preview.updates.length / PAGE_SIZE));
+  const pageUpdates = preview.updates.slice(
+    (page - 1) * PAGE_SIZE,
+    page * PAGE_SIZE
+  );
+  const counts = [
+    { label: "Created", value: preview.created, className: "text-green-700" },
+    { label: "Updated", value: preview.updated, className: "text-blue-700" },
+    {
+      label: "Unchanged",
+      value: preview.unchanged,
+      className: "text-gray-700",
+    },
+    { label: "Deleted", value: preview.deleted, className: "text-red-700" },
+  ];
+
+  return (
+    <div className="p-4 rounded-lg border border-blue-200 bg-blue-50">
+      <div className="flex items-center gap-2 mb-1">
+        <ClipboardList className="h-4 w-4 text-blue-600" />
+        <h3 className="text-sm font-medium text-gray-900">Import Summary</h3>
+      </div>
+      <p className="text-xs text-gray-600 mb-3">
+        Nothing has been written yet. Review the changes and confirm to import
+        the file.
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-3">
+        {counts.map((count) => (
+          <div
+            key={count.label}
+            className="p-2 bg-white rounded border border-gray-200 text-center"
+          >
+            <div className={`text-lg font-semibold ${count.className}`}>
+              {count.value.toLocaleString()}
+            </div>
+            <div className="text-xs text-gray-500">{count.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {preview.deleted > 0 && (
+        <div className="mb-3 flex items-start gap-2 text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-red-400" />
+          <span>
+            {preview.deleted.toLocaleString()} stored row(s) will be deleted
+          </span>
+        </div>
+      )}
+      {preview.invalidRows > 0 && (
+        <p className="mb-3 text-sm text-gray-600">
+          {preview.invalidRows.toLocaleString()} invalid row(s) will be skipped
+          and exported to error.csv
+        </p>
+      )}
+
+      {preview.updates.length > 0 && (
+        <>
+          <div className="overflow-x-auto bg-white rounded border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Line
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Part Mark
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Assembly Mark
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Changes
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {pageUpdates.map((update) => (
+                  <tr key={update.row_id}>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500 align-top">
+                      {update.line_no}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900 align-top">
+                      {update.part_mark}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900 align-top">
+                      {update.assembly_mark}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {update.changes.map((change) => (
+                        <div key={change.field}>
+                          <span className="font-medium">
+                            {getFieldLabel(change.field)}:
+                          </span>{" "}
+                          <span className="text-red-700 line-through">
+                            {formatValue(change.from)}
+                          </span>{" "}
+                          →{" "}
+                          <span className="text-green-700">
+                            {formatValue(change.to)}
+                          </span>
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-2 flex items-center justify-between text-xs text-gray-600">
+            <span>
+              {preview.updates.length < preview.updated
+                ? `Showing changes for the first ${preview.updates.length.toLocaleString()} of ${preview.updated.toLocaleString()} updated rows`
+                : `${preview.updates.length.toLocaleString()} updated row(s)`}
+            </span>
+            {totalPages > 1 && (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 1}
+                  className="px-2 py-1 border border-gray-300 rounded bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <span>
+                  Page {page} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page === totalPages}
+                  className="px-2 py-1 border border-gray-300 rounded bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          disabled={disabled}
+          className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+        >
+          <X className="h-3 w-3" />
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={disabled}
+          className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+        >
+          <Check className="h-3 w-3" />
+          Confirm Import
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { CSVRow } from "../../services/api";
+import { COLUMN_RULES } from "../../utils/columnRules";
+import { DatasetDuplicate, IncomingDuplicate } from "../../utils/duplicates";
+import { Copy } from "lucide-react";
+
+// Number of part marks listed per section
+const MAX_LISTED = 10;
+
+interface IncomingDuplicatesPanelProps {
+  // Part marks used by more than one row of the file
+  fileDuplicates: IncomingDuplicate[];
+  // Stored rows the file's rows would duplicate
+  storedDuplicates: DatasetDuplicate[];
+}
+
+const getFieldLabel = (field: keyof CSVRow) =>
+  COLUMN_RULES.find((rule) => rule.field === field)?.header || field;
+
+// Lists a few line numbers, e.g. "2, 5, 9 and 3 more"
+const formatLines = (lines: number[]) =>
+  lines.length > 5
+    ? `${lines.slice(0, 5).join(", ")} and ${lines.length - 5} more`
+    : lines.join(", ");
+
+// Flags duplicate part marks before upload; the upload is not blocked
+export const IncomingDuplicatesPanel: React.FC<
+  IncomingDuplicatesPanelProps
+> = ({ fileDuplicates, storedDuplicates }) => {
+  if (fileDuplicates.length === 0 && storedDuplicates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="p-4 rounded-lg border border-yellow-200 bg-yellow-50">
+      <div className="flex items-center gap-2 mb-1">
+        <Copy className="h-4 w-4 text-yellow-600" />
+        <h3 className="text-sm font-medium text-gray-900">
+          Duplicate Part Marks
+        </h3>
+      </div>
+      <p className="text-xs text-gray-600 mb-3">
+        The file can still be uploaded. Duplicates can be merged, deleted or
+        marked as intentional on the{" "}
+        <Link
+          to="/duplicates"
+          className="text-blue-600 hover:text-blue-500 underline"
+        >
+          Duplicates
+        </Link>{" "}
+        page.
+      </p>
+
+      {fileDuplicates.length > 0 && (
+        <div className="mb-3">
+          <p className="text-sm font-medium text-gray-800 mb-1">
+            {fileDuplicates.length} part mark(s) used more than once in this
+            file
+          </p>
+          <ul className="text-sm text-gray-700 space-y-1">
+            {fileDuplicates.slice(0, MAX_LISTED).map((duplicate) => (
+              <li key={duplicate.part_mark}>
+                <span className="font-medium">{duplicate.part_mark}</span> on
+                lines {formatLines(duplicate.lines)}
+                {duplicate.conflicting_fields.length > 0 && (
+                  <span className="text-red-700">
+                    {" "}
+                    (conflicting{" "}
+                    {duplicate.conflicting_fields.map(getFieldLabel).join(", ")}
+                    )
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+          {fileDuplicates.length > MAX_LISTED && (
+            <p className="text-xs text-gray-500 mt-1">
+              and {fileDuplicates.length - MAX_LISTED} more
+            </p>
+          )}
+        </div>
+      )}
+
+      {storedDuplicates.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-800 mb-1">
+            {storedDuplicates.length} part mark(s) already stored
+          </p>
+          <ul className="text-sm text-gray-700 space-y-1">
+            {storedDuplicates.slice(0, MAX_LISTED).map((duplicate) => (
+              <li key={duplicate.part_mark}>
+                <span className="font-medium">{duplicate.part_mark}</span> in
+                assembly{" "}
+                {Array.from(
+                  new Set(duplicate.rows.map((row) => row.assembly_mark))
+                ).join(", ")}
+              </li>
+            ))}
+          </ul>
+          {storedDuplicates.length > MAX_LISTED && (
+            <p className="text-xs text-gray-500 mt-1">
+              and {storedDuplicates.length - MAX_LISTED} more
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from "react";
+import { ValidationReport } from "../../services/api";
+import { ShieldCheck, ShieldAlert, X } from "lucide-react";
+
+const PAGE_SIZE = 25;
+
+interface ServerValidationReportProps {
+  report: ValidationReport;
+  onClose: () => void;
+}
+
+// Error codes and messages are semicolon-separated lists, in the same order
+const splitList = (value: string) =>
+  (value || "")
+    .split(";")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export const ServerValidationReport: React.FC<ServerValidationReportProps> = ({
+  report,
+  onClose,
+}) => {
+  const [codeFilter, setCodeFilter] = useState("");
+  const [page, setPage] = useState(1);
+
+  const rows = useMemo(
+    () =>
+      report.errors.map((row) => {
+        const codes = splitList(row.error_codes);
+        const messages = splitList(row.error_messages);
+        return {
+          ...row,
+          errors: codes.map((code, index) => ({
+            code,
+            message: messages[index] || "",
+          })),
+        };
+      }),
+    [report]
+  );
+
+  // Number of rows failing each error code
+  const codeCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    rows.forEach((row) => {
+      new Set(row.errors.map((error) => error.code)).forEach((code) => {
+        counts.set(code, (counts.get(code) || 0) + 1);
+      });
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [rows]);
+
+  const visibleRows = codeFilter
+    ? rows.filter((row) =>
+        row.errors.some((error) => error.code === codeFilter)
+      )
+    : rows;
+  const totalPages = Math.max(1, Math.ceil(visibleRows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, totalPages);
+  const pageRows = visibleRows.slice(
+    (currentPage - 1) * PAGE_SIZE,
+    currentPage * PAGE_SIZE
+  );
+
+  const isValid = report.invalidRows === 0;
+
+  return (
+    <div
+      className={`p-4 rounded-lg border ${
+        isValid ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2">
+          {isValid ? (
+            <ShieldCheck className="h-4 w-4 text-green-600" />
+          ) : (
+            <ShieldAlert className="h-4 w-4 text-red-600" />
+          )}
+          <h3 className="text-sm font-medium text-gray-900">
+            Server Validation Report
+          </h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700"
+          title="Close report"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-700 mb-3">
+        {isValid
+          ? `All ${report.totalRows.toLocaleString()} rows pass the server's validation. Nothing has been imported yet.`
+          : `${report.invalidRows.toLocaleString()} of ${report.totalRows.toLocaleString()} rows would be rejected on import. Nothing has been imported yet; fix the file and check again.`}
+      </p>
+
+      {rows.length > 0 && (
+        <>
+          <div className="mb-3">
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Filter by error code
+            </label>
+            <select
+              value={codeFilter}
+              onChange={(e) => {
+                setCodeFilter(e.target.value);
+                setPage(1);
+              }}
+              className="w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All errors ({rows.length})</option>
+              {codeCounts.map(([code, count]) => (
+                <option key={code} value={code}>
+                  {code} ({count})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="overflow-x-auto bg-white rounded border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Line
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Part Mark
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Assembly Mark
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Errors
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {pageRows.map((row) => (
+                  <tr key={row.line_no}>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500 align-top">
+                      {row.line_no}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900 align-top">
+                      {row.part_mark || "-"}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900 align-top">
+                      {row.assembly_mark || "-"}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {row.errors.map((error, index) => (
+                        <div key={index} className="flex items-start gap-2">
+                          <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800 whitespace-nowrap">
+                            {error.code}
+                          </span>
+                          <span>{error.message}</span>
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-2 flex items-center justify-between text-xs text-gray-600">
+            <span>
+              {visibleRows.length.toLocaleString()} row(s) with errors
+              {report.errors.length < report.invalidRows &&
+                ` (first ${report.errors.length.toLocaleString()} of ${report.invalidRows.toLocaleString()} returned)`}
+            </span>
+            {totalPages > 1 && (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPage(currentPage - 1)}
+                  disabled={currentPage === 1}
+                  className="px-2 py-1 border border-gray-300 rounded bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <span>
+                  Page {currentPage} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setPage(currentPage + 1)}
+                  disabled={currentPage === totalPages}
+                  className="px-2 py-1 border border-gray-300 rounded bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
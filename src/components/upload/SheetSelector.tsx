@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from "react";
+import { FileSpreadsheet } from "lucide-react";
+
+export interface SheetSelection {
+  sheetName: string;
+  // 1-based row number of the header row
+  headerRow: number;
+}
+
+interface SheetSelectorProps {
+  sheetNames: string[];
+  selection: SheetSelection;
+  detectedHeaderRow: number;
+  onSheetChange: (sheetName: string) => void;
+  onHeaderRowChange: (headerRow: number) => void;
+  disabled?: boolean;
+}
+
+export const SheetSelector: React.FC<SheetSelectorProps> = ({
+  sheetNames,
+  selection,
+  detectedHeaderRow,
+  onSheetChange,
+  onHeaderRowChange,
+  disabled = false,
+}) => {
+  const [headerRowInput, setHeaderRowInput] = useState(
+    String(selection.headerRow)
+  );
+
+  // Keep the input in sync when the selection changes from outside (e.g. a
+  // different sheet with another detected header row)
+  useEffect(() => {
+    setHeaderRowInput(String(selection.headerRow));
+  }, [selection.headerRow]);
+
+  const applyHeaderRow = () => {
+    const headerRow = parseInt(headerRowInput);
+    if (headerRow >= 1 && headerRow !== selection.headerRow) {
+      onHeaderRowChange(headerRow);
+    } else {
+      setHeaderRowInput(String(selection.headerRow));
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-lg bg-gray-50 border border-gray-200">
+      <div className="flex items-center gap-2 mb-3">
+        <FileSpreadsheet className="h-4 w-4 text-green-600" />
+        <h3 className="text-sm font-medium text-gray-900">Worksheet</h3>
+        <span className="text-xs text-gray-500">
+          Headers detected on row {detectedHeaderRow}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Sheet
+          </label>
+          <select
+            value={selection.sheetName}
+            onChange={(e) => onSheetChange(e.target.value)}
+            disabled={disabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+          >
+            {sheetNames.map((sheetName) => (
+              <option key={sheetName} value={sheetName}>
+                {sheetName}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Header row
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={headerRowInput}
+            onChange={(e) => setHeaderRowInput(e.target.value)}
+            onBlur={applyHeaderRow}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                applyHeaderRow();
+              }
+            }}
+            disabled={disabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,379 @@
+import React, { useMemo, useState } from "react";
+import {
+  EditableRow,
+  findFieldColumn,
+  getRowChange,
+  validateEditableRows,
+} from "../../utils/csvCorrection";
+import { CellValidationError } from "../../utils/headerValidation";
+import {
+  Table2,
+  Check,
+  X,
+  Trash2,
+  RotateCcw,
+  AlertTriangle,
+} from "lucide-react";
+
+const PAGE_SIZE = 25;
+
+// Groups cell errors by the source line of their row
+const groupErrorsByLine = (errors: CellValidationError[]) => {
+  const errorsByLine = new Map<number, CellValidationError[]>();
+  errors.forEach((error) => {
+    errorsByLine.set(error.rowNumber, [
+      ...(errorsByLine.get(error.rowNumber) || []),
+      error,
+    ]);
+  });
+  return errorsByLine;
+};
+
+interface UploadPreviewGridProps {
+  // Source headers as they appear in the file
+  headers: string[];
+  // Header of each column after column mapping ("" for ignored columns)
+  mappedHeaders: string[];
+  // Rows as parsed from the file, used to count edits
+  originalRows: EditableRow[];
+  // Rows to start editing from (previously applied fixes)
+  initialRows: EditableRow[];
+  onApply: (rows: EditableRow[]) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+export const UploadPreviewGrid: React.FC<UploadPreviewGridProps> = ({
+  headers,
+  mappedHeaders,
+  originalRows,
+  initialRows,
+  onApply,
+  onCancel,
+  disabled = false,
+}) => {
+  const [rows, setRows] = useState<EditableRow[]>(initialRows);
+  const [showOnlyInvalid, setShowOnlyInvalid] = useState(true);
+  const [page, setPage] = useState(1);
+
+  // Cell errors of each invalid row and the change of each changed row, keyed
+  // by line. Both are updated for the edited rows only, so large files are not
+  // checked again on every key press.
+  const [rowErrors, setRowErrors] = useState(() =>
+    groupErrorsByLine(validateEditableRows(initialRows, mappedHeaders))
+  );
+  const [rowChanges, setRowChanges] = useState(() => {
+    const changes = new Map<number, "edited" | "removed">();
+    initialRows.forEach((row, index) => {
+      const change = getRowChange(originalRows[index], row);
+      if (change) {
+        changes.set(row.line, change);
+      }
+    });
+    return changes;
+  });
+
+  const errorCount = useMemo(
+    () =>
+      Array.from(rowErrors.values()).reduce(
+        (count, errors) => count + errors.length,
+        0
+      ),
+    [rowErrors]
+  );
+  const { editedCount, removedCount } = useMemo(() => {
+    const changes = Array.from(rowChanges.values());
+    return {
+      editedCount: changes.filter((change) => change === "edited").length,
+      removedCount: changes.filter((change) => change === "removed").length,
+    };
+  }, [rowChanges]);
+
+  // Rows invalid in the file (or when the filter was last toggled) stay
+  // visible while they are being fixed, so they don't vanish mid-edit
+  const [filterLines, setFilterLines] = useState<Set<number>>(
+    () =>
+      new Set(
+        validateEditableRows(originalRows, mappedHeaders).map(
+          (error) => error.rowNumber
+        )
+      )
+  );
+
+  const visibleRows = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => !showOnlyInvalid || filterLines.has(row.line));
+  const totalPages = Math.max(1, Math.ceil(visibleRows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, totalPages);
+  const pageRows = visibleRows.slice(
+    (currentPage - 1) * PAGE_SIZE,
+    currentPage * PAGE_SIZE
+  );
+
+  // Replaces rows by index and checks only the replaced rows again
+  const replaceRows = (updates: Map<number, EditableRow>) => {
+    setRows((prev) => prev.map((row, index) => updates.get(index) ?? row));
+    setRowErrors((prev) => {
+      const next = new Map(prev);
+      updates.forEach((row) => {
+        const errors = validateEditableRows([row], mappedHeaders);
+        if (errors.length > 0) {
+          next.set(row.line, errors);
+        } else {
+          next.delete(row.line);
+        }
+      });
+      return next;
+    });
+    setRowChanges((prev) => {
+      const next = new Map(prev);
+      updates.forEach((row, index) => {
+        const change = getRowChange(originalRows[index], row);
+        if (change) {
+          next.set(row.line, change);
+        } else {
+          next.delete(row.line);
+        }
+      });
+      return next;
+    });
+  };
+
+  const updateRow = (index: number, changes: Partial<EditableRow>) => {
+    replaceRows(new Map([[index, { ...rows[index], ...changes }]]));
+  };
+
+  const handleCellChange = (index: number, column: number, value: string) => {
+    updateRow(index, {
+      fields: rows[index].fields.map((field, fieldIndex) =>
+        fieldIndex === column ? value : field
+      ),
+    });
+  };
+
+  const handleRemoveInvalidRows = () => {
+    const updates = new Map<number, EditableRow>();
+    rows.forEach((row, index) => {
+      if (rowErrors.has(row.line)) {
+        updates.set(index, { ...row, removed: true });
+      }
+    });
+    replaceRows(updates);
+  };
+
+  const handleToggleFilter = (checked: boolean) => {
+    setShowOnlyInvalid(checked);
+    setFilterLines(new Set(rowErrors.keys()));
+    setPage(1);
+  };
+
+  return (
+    <div className="p-4 rounded-lg border border-red-200 bg-red-50">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2">
+          <Table2 className="h-4 w-4 text-red-600" />
+          <h3 className="text-sm font-medium text-gray-900">
+            Fix Invalid Rows
+          </h3>
+        </div>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showOnlyInvalid}
+            onChange={(e) => handleToggleFilter(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span className="ml-2">Show only rows with errors</span>
+        </label>
+      </div>
+      <p className="text-xs text-gray-600 mb-3">
+        Correct the highlighted cells or remove the rows, then apply the fixes
+        to upload the corrected file.
+      </p>
+
+      <div className="overflow-x-auto bg-white rounded border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Line
+              </th>
+              {headers.map((header, column) => (
+                <th
+                  key={column}
+                  className={`px-3 py-2 text-left text-xs font-medium uppercase tracking-wider whitespace-nowrap ${
+                    mappedHeaders[column] ? "text-gray-500" : "text-gray-300"
+                  }`}
+                  title={
+                    mappedHeaders[column]
+                      ? `Maps to ${mappedHeaders[column]}`
+                      : "Ignored column"
+                  }
+                >
+                  {header || "(empty header)"}
+                </th>
+              ))}
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {pageRows.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={headers.length + 2}
+                  className="px-3 py-4 text-center text-sm text-gray-500"
+                >
+                  No rows to show
+                </td>
+              </tr>
+            ) : (
+              pageRows.map(({ row, index }) => (
+                <tr
+                  key={row.line}
+                  className={row.removed ? "bg-gray-50 opacity-50" : ""}
+                >
+                  <td className="px-3 py-1 whitespace-nowrap text-sm text-gray-500">
+                    {row.line}
+                  </td>
+                  {row.fields.map((value, column) => {
+                    const cellError = row.removed
+                      ? undefined
+                      : rowErrors
+                          .get(row.line)
+                          ?.find(
+                            (error) =>
+                              findFieldColumn(mappedHeaders, error.field) ===
+                              column
+                          )?.message;
+                    return (
+                      <td key={column} className="px-1 py-1 align-top">
+                        <input
+                          type="text"
+                          value={value}
+                          onChange={(e) =>
+                            handleCellChange(index, column, e.target.value)
+                          }
+                          disabled={disabled || row.removed}
+                          title={cellError}
+                          className={`w-full min-w-[6rem] px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                            cellError
+                              ? "border-red-400 bg-red-50"
+                              : "border-gray-200"
+                          } ${row.removed ? "line-through" : ""}`}
+                        />
+                        {cellError && (
+                          <p className="mt-0.5 text-xs text-red-600">
+                            {cellError}
+                          </p>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="px-3 py-1 whitespace-nowrap text-sm">
+                    {row.removed ? (
+                      <button
+                        onClick={() => updateRow(index, { removed: false })}
+                        disabled={disabled}
+                        className="text-blue-600 hover:text-blue-900 flex items-center gap-1 disabled:opacity-50"
+                        title="Restore row"
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                        Restore
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => updateRow(index, { removed: true })}
+                        disabled={disabled}
+                        className="text-red-600 hover:text-red-900 flex items-center gap-1 disabled:opacity-50"
+                        title="Remove row"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-2 flex items-center justify-between text-xs text-gray-600">
+        <span>
+          {visibleRows.length.toLocaleString()} of{" "}
+          {rows.length.toLocaleString()} rows shown
+        </span>
+        {totalPages > 1 && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 1}
+              className="px-2 py-1 border border-gray-300 rounded bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span>
+              Page {currentPage} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage === totalPages}
+              className="px-2 py-1 border border-gray-300 rounded bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-3 flex items-start gap-2 text-sm">
+        {errorCount > 0 ? (
+          <>
+            <AlertTriangle className="h-4 w-4 mt-0.5 text-red-400" />
+            <span className="text-red-700">
+              {errorCount} invalid value(s) in {rowErrors.size} row(s)
+            </span>
+          </>
+        ) : (
+          <>
+            <Check className="h-4 w-4 mt-0.5 text-green-500" />
+            <span className="text-green-700">All rows are valid</span>
+          </>
+        )}
+        <span className="text-gray-500">
+          • {editedCount} edited • {removedCount} removed
+        </span>
+      </div>
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          disabled={disabled}
+          className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+        >
+          <X className="h-3 w-3" />
+          Cancel
+        </button>
+        <button
+          onClick={handleRemoveInvalidRows}
+          disabled={disabled || errorCount === 0}
+          className="px-3 py-1 text-sm text-red-600 border border-red-300 rounded bg-white hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+        >
+          <Trash2 className="h-3 w-3" />
+          Remove all invalid rows
+        </button>
+        <button
+          onClick={() => onApply(rows)}
+          disabled={disabled || errorCount > 0 || removedCount === rows.length}
+          className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+        >
+          <Check className="h-3 w-3" />
+          Apply Fixes
+        </button>
+      </div>
+    </div>
+  );
+};
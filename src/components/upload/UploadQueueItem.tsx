@@ -0,0 +1,1031 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import axios from "axios";
+import {
+  useUploadCSV,
+  usePreviewImport,
+  useValidateFile,
+} from "../../hooks/useCSVData";
+import { useCSVValidation } from "../../hooks/useCSVValidation";
+import { DialectSelector } from "./DialectSelector";
+import { UploadPreviewGrid } from "./UploadPreviewGrid";
+import { SheetSelector, SheetSelection } from "./SheetSelector";
+import { ColumnMappingStep, SaveProfileOptions } from "./ColumnMappingStep";
+import { ImportModeSelector } from "./ImportModeSelector";
+import { ImportSummary } from "./ImportSummary";
+import { ServerValidationReport } from "./ServerValidationReport";
+import { IncomingDuplicatesPanel } from "./IncomingDuplicatesPanel";
+import {
+  useLoadMappingProfiles,
+  useMappingProfiles,
+  useCreateMappingProfile,
+} from "../../hooks/useMappingProfiles";
+import { useCheckDuplicates } from "../../hooks/useDuplicates";
+import {
+  CheckDuplicatesResponse,
+  CSVRow,
+  ImportMode,
+  ImportPreview,
+  MappingProfile,
+  UploadOptions,
+  UploadProgress,
+  UploadResponse,
+  ValidationReport,
+} from "../../services/api";
+import { discardChunkedUpload } from "../../services/csv/chunkedUpload";
+import { parseCSVRecords } from "../../utils/csvParser";
+import {
+  columnMappingToProfileMapping,
+  findMatchingProfile,
+  getHeaderSignature,
+  profileToColumnMapping,
+} from "../../utils/mappingProfiles";
+import {
+  countRowChanges,
+  createCorrectedFile,
+  EditableRow,
+} from "../../utils/csvCorrection";
+import {
+  detectHeaderRow,
+  ExcelWorkbook,
+  getConvertedFileName,
+  isExcelFile,
+  readWorkbook,
+  sheetToCSVText,
+} from "../../utils/excelImport";
+import { formatFileSize } from "../../utils/fileValidation";
+import { findDatasetDuplicates } from "../../utils/duplicates";
+import { CSVValidationResult } from "../../workers/csvValidation.types";
+import {
+  CSVDialect,
+  DEFAULT_DIALECT,
+  sniffCSVDialect,
+} from "../../utils/csvDialect";
+import { toast } from "sonner";
+import {
+  createMissingHeadersMessage,
+  createCellErrorsMessage,
+  createParseErrorsMessage,
+  suggestColumnMapping,
+  extractHeaders,
+  applyColumnMapping,
+  ColumnMapping,
+} from "../../utils/headerValidation";
+import {
+  Upload,
+  Loader2,
+  AlertTriangle,
+  FileText,
+  RotateCcw,
+  ShieldCheck,
+  X,
+} from "lucide-react";
+
+export type UploadQueueStatus =
+  | "waiting"
+  | "validating"
+  | "needs-attention"
+  | "ready"
+  | "previewing"
+  | "confirming"
+  | "uploading"
+  | "uploaded"
+  | "failed";
+
+interface UploadQueueItemProps {
+  file: File;
+  // Set once the file may start validating; the queue limits how many files
+  // validate at once
+  canValidate?: boolean;
+  // Set when "Upload all" reaches this file
+  uploadRequested?: boolean;
+  onStatusChange: (status: UploadQueueStatus, result?: UploadResponse) => void;
+  onRemove: () => void;
+}
+
+const STATUS_LABELS: Record<UploadQueueStatus, string> = {
+  waiting: "Waiting",
+  validating: "Validating",
+  "needs-attention": "Needs attention",
+  ready: "Ready",
+  previewing: "Checking changes",
+  confirming: "Confirm import",
+  uploading: "Uploading",
+  uploaded: "Uploaded",
+  failed: "Failed",
+};
+
+const STATUS_STYLES: Record<UploadQueueStatus, string> = {
+  waiting: "bg-gray-100 text-gray-800",
+  validating: "bg-blue-100 text-blue-800",
+  "needs-attention": "bg-yellow-100 text-yellow-800",
+  ready: "bg-blue-100 text-blue-800",
+  previewing: "bg-blue-100 text-blue-800",
+  confirming: "bg-yellow-100 text-yellow-800",
+  uploading: "bg-blue-100 text-blue-800",
+  uploaded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+// One file of the upload queue, validated and uploaded on its own
+export const UploadQueueItem: React.FC<UploadQueueItemProps> = ({
+  file: queuedFile,
+  canValidate = true,
+  uploadRequested = false,
+  onStatusChange,
+  onRemove,
+}) => {
+  const uploadMutation = useUploadCSV();
+  const previewMutation = usePreviewImport();
+  const validateFileMutation = useValidateFile();
+  const checkDuplicatesMutation = useCheckDuplicates();
+  const {
+    validate: validateCSV,
+    readRows: readCSVRows,
+    cancel: cancelValidation,
+    progress: validationProgress,
+  } = useCSVValidation();
+  const [hasStarted, setHasStarted] = useState(false);
+  const [isValidatingHeaders, setIsValidatingHeaders] = useState(false);
+  // Incremented by each validation run; a run superseded by a newer one (e.g.
+  // after changing the dialect) leaves its results unused
+  const validationRunRef = useRef(0);
+  const [headerValidationError, setHeaderValidationError] = useState<
+    string | null
+  >(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [dialect, setDialect] = useState<CSVDialect>(DEFAULT_DIALECT);
+  const [detectedDialect, setDetectedDialect] =
+    useState<CSVDialect>(DEFAULT_DIALECT);
+  const [isReadyToUpload, setIsReadyToUpload] = useState(false);
+  const [validationResult, setValidationResult] =
+    useState<CSVValidationResult | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(
+    null
+  );
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
+  const [activeProfile, setActiveProfile] = useState<MappingProfile | null>(
+    null
+  );
+  const [sample, setSample] = useState("");
+  // Rows of a file with invalid values, and the fixes applied to them
+  const [originalRows, setOriginalRows] = useState<EditableRow[] | null>(null);
+  const [editedRows, setEditedRows] = useState<EditableRow[] | null>(null);
+  // Kept between upload attempts so an interrupted upload can resume
+  const [correctedFile, setCorrectedFile] = useState<File | null>(null);
+  const [isCorrectionOpen, setIsCorrectionOpen] = useState(false);
+  // Excel workbook the selected file was converted from
+  const [workbook, setWorkbook] = useState<ExcelWorkbook | null>(null);
+  const [sheetSelection, setSheetSelection] = useState<SheetSelection | null>(
+    null
+  );
+  const [detectedHeaderRow, setDetectedHeaderRow] = useState(1);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(
+    null
+  );
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("append");
+  // Changes the upload would make, shown for confirmation before upserting
+  // or replacing
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(
+    null
+  );
+  // Request the shown preview was made for; its upload session stays open on
+  // the server until the import is confirmed or discarded
+  const previewRequestRef = useRef<({ file: File } & UploadOptions) | null>(
+    null
+  );
+  // Result of the server's dry-run validation
+  const [serverReport, setServerReport] = useState<ValidationReport | null>(
+    null
+  );
+  // Stored rows with the file's part marks, looked up after validation
+  const [storedPartRows, setStoredPartRows] = useState<CSVRow[] | null>(null);
+  const { data: profilesData } = useMappingProfiles();
+  const loadProfiles = useLoadMappingProfiles();
+  const createProfileMutation = useCreateMappingProfile();
+  const profiles = profilesData?.data || [];
+
+  const uploadResult = uploadMutation.data?.data as UploadResponse | undefined;
+  const uploadError = uploadMutation.error;
+  const sourceHeaders = validationResult?.headers || [];
+  const mappingSuggestions = useMemo(
+    () => suggestColumnMapping(sourceHeaders),
+    [sourceHeaders]
+  );
+  const mappedHeaders = useMemo(
+    () => applyColumnMapping(sourceHeaders, columnMapping || undefined),
+    [sourceHeaders, columnMapping]
+  );
+  // Replacing deletes the stored rows, so they can't become duplicates
+  const storedDuplicates = useMemo(
+    () =>
+      storedPartRows && validationResult && importMode !== "replace"
+        ? findDatasetDuplicates(
+            storedPartRows,
+            validationResult.partAssemblies,
+            importMode === "upsert"
+          )
+        : [],
+    [storedPartRows, validationResult, importMode]
+  );
+  const rowChanges = useMemo(
+    () =>
+      originalRows && editedRows
+        ? countRowChanges(originalRows, editedRows)
+        : null,
+    [originalRows, editedRows]
+  );
+
+  const status: UploadQueueStatus = !hasStarted
+    ? "waiting"
+    : uploadMutation.isPending
+    ? "uploading"
+    : uploadResult
+    ? uploadResult.success
+      ? "uploaded"
+      : "failed"
+    : isValidatingHeaders || validateFileMutation.isPending
+    ? "validating"
+    : previewMutation.isPending
+    ? "previewing"
+    : importPreview
+    ? "confirming"
+    : uploadError && !axios.isCancel(uploadError)
+    ? "failed"
+    : isReadyToUpload
+    ? "ready"
+    : "needs-attention";
+  const isBusy =
+    isValidatingHeaders ||
+    validateFileMutation.isPending ||
+    previewMutation.isPending ||
+    uploadMutation.isPending;
+
+  const resetCorrection = () => {
+    setOriginalRows(null);
+    setEditedRows(null);
+    setCorrectedFile(null);
+    setIsCorrectionOpen(false);
+  };
+
+  // Drops the shown preview along with the upload session it was made in
+  const discardPreview = () => {
+    const request = previewRequestRef.current;
+    previewRequestRef.current = null;
+    setImportPreview(null);
+    if (request) {
+      const { file, ...options } = request;
+      discardChunkedUpload(file, options);
+    }
+  };
+
+  // Validates headers and data of the selected file with the given dialect
+  // and column mapping
+  const runValidation = async (
+    file: File,
+    fileDialect: CSVDialect,
+    mapping: ColumnMapping | null
+  ) => {
+    const run = ++validationRunRef.current;
+    const isSuperseded = () => run !== validationRunRef.current;
+    setHeaderValidationError(null);
+    setIsReadyToUpload(false);
+    discardPreview();
+    setServerReport(null);
+    setStoredPartRows(null);
+    uploadMutation.reset();
+    resetCorrection();
+    setIsValidatingHeaders(true);
+    try {
+      const result = await validateCSV(file, fileDialect, mapping || undefined);
+
+      // Validation was cancelled by the user or by a newer run
+      if (!result || isSuperseded()) {
+        return;
+      }
+
+      setValidationResult(result);
+      const { parseErrors, headerValidation, dataValidation } = result;
+      checkStoredDuplicates(result, isSuperseded);
+
+      // Unrecognised headers can be fixed by mapping the columns
+      if (!headerValidation.isValid && result.headers.length > 0) {
+        setIsMappingOpen(true);
+        toast.warning(
+          `${file.name}: ${createMissingHeadersMessage(
+            headerValidation.missingHeaders
+          )}. Map the file's columns to continue.`
+        );
+        return;
+      }
+
+      // Validate headers
+      if (!headerValidation.isValid) {
+        const errorMessage = createMissingHeadersMessage(
+          headerValidation.missingHeaders
+        );
+        setHeaderValidationError(errorMessage);
+        toast.error(`Header validation failed: ${errorMessage}`);
+        return;
+      }
+
+      if (parseErrors.length > 0) {
+        const errorMessage = createParseErrorsMessage(parseErrors);
+        setHeaderValidationError(errorMessage);
+        toast.error(`CSV parsing failed: ${errorMessage}`);
+        return;
+      }
+
+      // Rows with invalid values can be fixed or removed in the
+      // preview grid before uploading; they are read in the worker too
+      if (!dataValidation.isValid) {
+        const editable = await readCSVRows(file, fileDialect);
+        if (!editable || isSuperseded()) return;
+        setOriginalRows(editable.rows);
+        setIsCorrectionOpen(true);
+        toast.warning(
+          `${file.name}: ${dataValidation.totalErrors} invalid value(s) found. Fix or remove the highlighted rows to continue.`
+        );
+        return;
+      }
+
+      // Show warnings if any
+      const allWarnings = [
+        ...headerValidation.warnings,
+        ...dataValidation.warnings,
+      ];
+      if (allWarnings.length > 0) {
+        allWarnings.forEach((warning) => {
+          toast.warning(warning);
+        });
+      }
+
+      // All validations passed, wait for the user to confirm the upload
+      setIsReadyToUpload(true);
+    } catch (error) {
+      if (isSuperseded()) return;
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to validate CSV file";
+      setHeaderValidationError(errorMessage);
+      toast.error(`Validation failed: ${errorMessage}`);
+    } finally {
+      // A newer run is still going and clears the flag itself
+      if (!isSuperseded()) setIsValidatingHeaders(false);
+    }
+  };
+
+  // Looks up stored rows with the file's part marks in the background, to
+  // flag rows that would duplicate them; the answer is dropped once a newer
+  // validation run has started
+  const checkStoredDuplicates = (
+    result: CSVValidationResult,
+    isSuperseded: () => boolean
+  ) => {
+    if (result.partMarks.length === 0) return;
+    checkDuplicatesMutation.mutate(result.partMarks, {
+      onSuccess: (response) => {
+        if (isSuperseded()) return;
+        setStoredPartRows((response.data as CheckDuplicatesResponse).data);
+      },
+    });
+  };
+
+  // Picks a saved mapping profile matching the file's headers (read from the
+  // sniffed sample) and validates the file with it; waits for the profiles
+  // when they're still loading
+  const startValidation = async (
+    file: File,
+    fileDialect: CSVDialect,
+    fileSample: string
+  ) => {
+    const { records } = parseCSVRecords(fileSample, {
+      delimiter: fileDialect.delimiter,
+    });
+    const headers = records.length > 0 ? extractHeaders(records[0]) : [];
+    const profile = findMatchingProfile(await loadProfiles(), headers);
+    const mapping = profile ? profileToColumnMapping(profile, headers) : null;
+
+    if (profile) {
+      toast.info(`Using mapping profile "${profile.name}" for ${file.name}`);
+    }
+    setActiveProfile(profile);
+    setColumnMapping(mapping);
+    setIsMappingOpen(false);
+    return runValidation(file, fileDialect, mapping);
+  };
+
+  // Converts a sheet of the workbook to CSV and validates it like an uploaded
+  // CSV file; the header row is detected unless given
+  const selectSheet = (
+    book: ExcelWorkbook,
+    sheetName: string,
+    headerRow?: number
+  ) => {
+    const rows = book.readSheet(sheetName);
+    const detected = detectHeaderRow(rows);
+    const selection = { sheetName, headerRow: headerRow ?? detected };
+    const csvText = sheetToCSVText(rows, selection.headerRow);
+    const file = new File(
+      [csvText],
+      getConvertedFileName(book.file.name, sheetName),
+      { type: "text/csv" }
+    );
+
+    setDetectedHeaderRow(detected);
+    setSheetSelection(selection);
+    setSelectedFile(file);
+    // Only the header row is needed to pick a mapping profile
+    const headerSample = sheetToCSVText(
+      [rows[selection.headerRow - 1] || []],
+      1
+    );
+    setSample(headerSample);
+    setDetectedDialect(DEFAULT_DIALECT);
+    setDialect(DEFAULT_DIALECT);
+    setValidationResult(null);
+    return startValidation(file, DEFAULT_DIALECT, headerSample);
+  };
+
+  // Reads the queued file; size and type were checked when it was queued
+  const processFile = async (file: File) => {
+    // Workbooks are converted to CSV client-side, one sheet at a time
+    if (isExcelFile(file)) {
+      setIsValidatingHeaders(true);
+      try {
+        const book = await readWorkbook(file);
+        if (book.sheetNames.length === 0) {
+          throw new Error("The workbook has no sheets");
+        }
+        setWorkbook(book);
+        await selectSheet(book, book.sheetNames[0]);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to read workbook";
+        setHeaderValidationError(errorMessage);
+        toast.error(`Validation failed: ${errorMessage}`);
+      } finally {
+        setIsValidatingHeaders(false);
+      }
+      return;
+    }
+
+    // Detect delimiter and encoding before validating the content
+    setIsValidatingHeaders(true);
+    try {
+      const { dialect: sniffedDialect, sample: fileSample } =
+        await sniffCSVDialect(file);
+      setSelectedFile(file);
+      setSample(fileSample);
+      setDetectedDialect(sniffedDialect);
+      setDialect(sniffedDialect);
+      setValidationResult(null);
+      await startValidation(file, sniffedDialect, fileSample);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to read file";
+      setHeaderValidationError(errorMessage);
+      setIsValidatingHeaders(false);
+      toast.error(`Validation failed: ${errorMessage}`);
+    }
+  };
+
+  const handleDialectChange = (nextDialect: CSVDialect) => {
+    // A different dialect yields different columns, so the mapping is redone;
+    // the run in flight is stopped first
+    setDialect(nextDialect);
+    if (selectedFile) {
+      cancelValidation();
+      startValidation(selectedFile, nextDialect, sample);
+    }
+  };
+
+  const handleSheetChange = (sheetName: string) => {
+    if (workbook) {
+      selectSheet(workbook, sheetName);
+    }
+  };
+
+  const handleHeaderRowChange = (headerRow: number) => {
+    if (workbook && sheetSelection) {
+      selectSheet(workbook, sheetSelection.sheetName, headerRow);
+    }
+  };
+
+  const handleCancelMapping = () => {
+    setIsMappingOpen(false);
+    if (validationResult && !validationResult.headerValidation.isValid) {
+      setHeaderValidationError(
+        createMissingHeadersMessage(
+          validationResult.headerValidation.missingHeaders
+        )
+      );
+    }
+  };
+
+  const handleApplyMapping = (
+    mapping: ColumnMapping,
+    saveAs: SaveProfileOptions | null
+  ) => {
+    if (saveAs) {
+      createProfileMutation.mutate({
+        ...saveAs,
+        header_signature: getHeaderSignature(sourceHeaders),
+        mapping: columnMappingToProfileMapping(mapping),
+      });
+    }
+    setColumnMapping(mapping);
+    setActiveProfile(null);
+    setIsMappingOpen(false);
+    if (selectedFile) {
+      runValidation(selectedFile, dialect, mapping);
+    }
+  };
+
+  const handleApplyFixes = (rows: EditableRow[]) => {
+    setEditedRows(rows);
+    discardPreview();
+    setServerReport(null);
+    // Fixed rows are uploaded as a new UTF-8 file with the same columns, so
+    // the column mapping still applies
+    if (selectedFile) {
+      setCorrectedFile(
+        createCorrectedFile(
+          selectedFile.name,
+          sourceHeaders,
+          rows,
+          dialect.delimiter
+        )
+      );
+    }
+    setIsCorrectionOpen(false);
+    setIsReadyToUpload(true);
+  };
+
+  const handleCancelFixes = () => {
+    setIsCorrectionOpen(false);
+    if (!editedRows && validationResult) {
+      setHeaderValidationError(
+        createCellErrorsMessage(validationResult.dataValidation.cellErrors)
+      );
+    }
+  };
+
+  // File and options sent to the server, for the preview and the upload
+  const getUploadRequest = (): ({ file: File } & UploadOptions) | null => {
+    if (!selectedFile || !isReadyToUpload) return null;
+    return {
+      file: correctedFile || selectedFile,
+      dialect: correctedFile ? { ...dialect, encoding: "utf-8" } : dialect,
+      mapping: columnMapping,
+      importMode,
+    };
+  };
+
+  // Tracks the bytes sent by the preview or the upload and lets "Cancel" stop
+  // them
+  const trackUpload = (file: File) => {
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+    setUploadProgress({ loaded: 0, total: file.size });
+    return { signal: controller.signal, onProgress: setUploadProgress };
+  };
+
+  const startUpload = () => {
+    const request = getUploadRequest();
+    if (!request) return;
+    uploadMutation.mutate(
+      { ...request, ...trackUpload(request.file) },
+      {
+        onSettled: () => {
+          uploadAbortRef.current = null;
+          setUploadProgress(null);
+          // The session was imported, or is kept to resume a failed upload
+          previewRequestRef.current = null;
+          setImportPreview(null);
+        },
+      }
+    );
+  };
+
+  // Also used to retry a failed upload; chunked uploads resume where they
+  // stopped. Upserts and replacements are sent to an upload session and
+  // previewed, and confirming the summary completes that session.
+  const handleUpload = () => {
+    const request = getUploadRequest();
+    if (!request) return;
+    if (importMode === "append") {
+      startUpload();
+      return;
+    }
+    uploadMutation.reset();
+    previewMutation.mutate(
+      { ...request, ...trackUpload(request.file) },
+      {
+        onSettled: () => {
+          uploadAbortRef.current = null;
+          setUploadProgress(null);
+        },
+        onSuccess: (response) => {
+          const preview = response.data as ImportPreview;
+          if (!preview.success) {
+            toast.error("Failed to preview import", {
+              description: preview.error || "Please try again",
+            });
+            return;
+          }
+          previewRequestRef.current = request;
+          setImportPreview(preview);
+        },
+      }
+    );
+  };
+
+  const handleCheckOnServer = () => {
+    const request = getUploadRequest();
+    if (!request) return;
+    validateFileMutation.mutate(request, {
+      onSuccess: (response) => {
+        const report = response.data as ValidationReport;
+        if (!report.success) {
+          toast.error("Server validation failed", {
+            description: report.error || "Please try again",
+          });
+          return;
+        }
+        setServerReport(report);
+      },
+    });
+  };
+
+  const handleImportModeChange = (nextMode: ImportMode) => {
+    setImportMode(nextMode);
+    discardPreview();
+  };
+
+  const handleCancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
+  // Latest handlers for the effects below, which run on their triggers only
+  // and must not call a closure over stale state
+  const handlersRef = useRef({ processFile, handleUpload, onStatusChange });
+  useEffect(() => {
+    handlersRef.current = { processFile, handleUpload, onStatusChange };
+  });
+
+  // Validate the file once the queue lets it start
+  useEffect(() => {
+    if (canValidate && !hasStarted) {
+      setHasStarted(true);
+      handlersRef.current.processFile(queuedFile);
+    }
+  }, [canValidate, hasStarted, queuedFile]);
+
+  // Stop an upload still running and drop an unconfirmed preview when the
+  // file is removed from the queue
+  useEffect(() => {
+    return () => {
+      uploadAbortRef.current?.abort();
+      const request = previewRequestRef.current;
+      if (request) {
+        const { file, ...options } = request;
+        discardChunkedUpload(file, options);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    handlersRef.current.onStatusChange(status, uploadResult);
+  }, [status, uploadResult]);
+
+  // A request from "Upload all" is handled once, as soon as the file is
+  // ready; cancelling the confirmation does not start it again
+  const uploadRequestHandledRef = useRef(false);
+  useEffect(() => {
+    if (!uploadRequested) {
+      uploadRequestHandledRef.current = false;
+      return;
+    }
+    if (status === "ready" && !uploadRequestHandledRef.current) {
+      uploadRequestHandledRef.current = true;
+      handlersRef.current.handleUpload();
+    }
+  }, [uploadRequested, status]);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm text-gray-700 min-w-0">
+          <FileText className="h-4 w-4 text-gray-400 flex-shrink-0" />
+          <span className="font-medium truncate">{queuedFile.name}</span>
+          <span className="text-gray-500 flex-shrink-0">
+            ({formatFileSize(queuedFile.size)})
+          </span>
+          <span
+            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${STATUS_STYLES[status]}`}
+          >
+            {status === "validating" ||
+            status === "previewing" ||
+            status === "uploading" ? (
+              <Loader2 className="animate-spin h-3 w-3 mr-1" />
+            ) : null}
+            {STATUS_LABELS[status]}
+          </span>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {status === "failed" && isReadyToUpload && (
+            <button
+              onClick={handleUpload}
+              className="px-3 py-1 text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+            >
+              <RotateCcw className="h-3 w-3" />
+              Retry
+            </button>
+          )}
+          <button
+            onClick={onRemove}
+            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1"
+          >
+            <X className="h-3 w-3" />
+            Remove
+          </button>
+          {status === "ready" && (
+            <button
+              onClick={handleCheckOnServer}
+              disabled={isBusy}
+              className="px-3 py-1 text-sm text-blue-600 border border-blue-300 rounded hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+              title="Validate every row on the server without importing"
+            >
+              <ShieldCheck className="h-3 w-3" />
+              Check on server
+            </button>
+          )}
+          {(status === "ready" ||
+            status === "previewing" ||
+            status === "uploading") && (
+            <button
+              onClick={handleUpload}
+              disabled={isBusy}
+              className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+            >
+              {isBusy ? (
+                <Loader2 className="animate-spin h-3 w-3" />
+              ) : (
+                <Upload className="h-3 w-3" />
+              )}
+              {uploadMutation.isPending
+                ? "Uploading..."
+                : previewMutation.isPending
+                ? "Checking..."
+                : "Upload"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {uploadResult && (
+        <p
+          className={`text-sm ${
+            uploadResult.success ? "text-green-700" : "text-red-700"
+          }`}
+        >
+          Valid rows: {uploadResult.validRows} • Invalid rows:{" "}
+          {uploadResult.invalidRows}
+          {uploadResult.error && ` • ${uploadResult.error}`}
+          {uploadResult.batchId && (
+            <>
+              {" "}
+              •{" "}
+              <Link
+                to={`/?batch=${uploadResult.batchId}`}
+                className="text-blue-600 hover:text-blue-500 underline"
+              >
+                View rows
+              </Link>
+            </>
+          )}
+        </p>
+      )}
+
+      {status === "failed" && !uploadResult && (
+        <p className="text-sm text-red-700">
+          Upload failed:{" "}
+          {(axios.isAxiosError(uploadError) &&
+            uploadError.response?.data?.error) ||
+            "Connection lost. Retry to continue the upload."}
+        </p>
+      )}
+
+      {uploadProgress && (
+        <div className="space-y-2">
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-2 bg-green-600 transition-all"
+              style={{
+                width: `${
+                  uploadProgress.total > 0
+                    ? Math.round(
+                        (uploadProgress.loaded / uploadProgress.total) * 100
+                      )
+                    : 0
+                }%`,
+              }}
+            />
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>
+              {uploadProgress.loaded < uploadProgress.total
+                ? `Uploaded ${formatFileSize(
+                    uploadProgress.loaded
+                  )} of ${formatFileSize(uploadProgress.total)}`
+                : previewMutation.isPending
+                ? "Upload complete, checking the changes on the server..."
+                : "Upload complete, processing rows on the server..."}
+            </span>
+            <button
+              onClick={handleCancelUpload}
+              className="text-red-600 hover:text-red-800 flex items-center gap-1"
+            >
+              <X className="h-3 w-3" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isValidatingHeaders && validationProgress && (
+        <div className="space-y-2">
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-2 bg-blue-600 transition-all"
+              style={{
+                width: `${
+                  validationProgress.totalBytes > 0
+                    ? Math.round(
+                        (validationProgress.bytesRead /
+                          validationProgress.totalBytes) *
+                          100
+                      )
+                    : 0
+                }%`,
+              }}
+            />
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>
+              Scanned {validationProgress.rowsScanned.toLocaleString()} rows (
+              {formatFileSize(validationProgress.bytesRead)} of{" "}
+              {formatFileSize(validationProgress.totalBytes)})
+              {validationProgress.errorCount > 0 && (
+                <span className="text-red-600">
+                  {" "}
+                  • {validationProgress.errorCount} error(s) so far
+                </span>
+              )}
+            </span>
+            <button
+              onClick={cancelValidation}
+              className="text-red-600 hover:text-red-800 flex items-center gap-1"
+            >
+              <X className="h-3 w-3" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {selectedFile && status !== "uploaded" && (
+        <>
+          {workbook && sheetSelection ? (
+            <SheetSelector
+              sheetNames={workbook.sheetNames}
+              selection={sheetSelection}
+              detectedHeaderRow={detectedHeaderRow}
+              onSheetChange={handleSheetChange}
+              onHeaderRowChange={handleHeaderRowChange}
+              disabled={isBusy}
+            />
+          ) : (
+            <DialectSelector
+              dialect={dialect}
+              detectedDialect={detectedDialect}
+              onChange={handleDialectChange}
+              disabled={isBusy}
+            />
+          )}
+          {isMappingOpen && validationResult ? (
+            <ColumnMappingStep
+              key={sourceHeaders.join("|")}
+              headers={sourceHeaders}
+              previewRows={validationResult.previewRows}
+              initialMapping={columnMapping || mappingSuggestions}
+              suggestions={mappingSuggestions}
+              profiles={profiles}
+              onApply={handleApplyMapping}
+              onCancel={handleCancelMapping}
+              disabled={isBusy}
+            />
+          ) : (
+            sourceHeaders.length > 0 && (
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  {activeProfile
+                    ? `Mapping profile "${activeProfile.name}" applied`
+                    : columnMapping
+                    ? `Custom column mapping applied (${
+                        columnMapping.filter((column) => column.target).length
+                      } of ${columnMapping.length} columns used)`
+                    : `${sourceHeaders.length} columns detected`}
+                </span>
+                <button
+                  onClick={() => setIsMappingOpen(true)}
+                  disabled={isBusy}
+                  className="text-blue-600 hover:text-blue-500 underline disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Edit column mapping
+                </button>
+              </div>
+            )
+          )}
+          {originalRows &&
+            (isCorrectionOpen ? (
+              <UploadPreviewGrid
+                headers={sourceHeaders}
+                mappedHeaders={mappedHeaders}
+                originalRows={originalRows}
+                initialRows={editedRows || originalRows}
+                onApply={handleApplyFixes}
+                onCancel={handleCancelFixes}
+                disabled={uploadMutation.isPending}
+              />
+            ) : (
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  {rowChanges
+                    ? `Fixes applied: ${rowChanges.edited} row(s) edited, ${rowChanges.removed} row(s) removed`
+                    : "Rows with invalid values need fixing"}
+                </span>
+                <button
+                  onClick={() => {
+                    setHeaderValidationError(null);
+                    setIsCorrectionOpen(true);
+                  }}
+                  disabled={uploadMutation.isPending}
+                  className="text-blue-600 hover:text-blue-500 underline disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {rowChanges ? "Edit rows" : "Fix invalid rows"}
+                </button>
+              </div>
+            ))}
+          {!isMappingOpen && !isCorrectionOpen && (
+            <ImportModeSelector
+              importMode={importMode}
+              onChange={handleImportModeChange}
+              disabled={isBusy}
+            />
+          )}
+          {validationResult && !isMappingOpen && !uploadMutation.isPending && (
+            <IncomingDuplicatesPanel
+              fileDuplicates={validationResult.duplicates}
+              storedDuplicates={storedDuplicates}
+            />
+          )}
+          {serverReport && !uploadMutation.isPending && (
+            <ServerValidationReport
+              report={serverReport}
+              onClose={() => setServerReport(null)}
+            />
+          )}
+          {importPreview && !uploadMutation.isPending && (
+            <ImportSummary
+              preview={importPreview}
+              onConfirm={startUpload}
+              onCancel={discardPreview}
+            />
+          )}
+        </>
+      )}
+
+      {headerValidationError && (
+        <div className="p-4 rounded-lg bg-red-50 border border-red-200">
+          <div className="flex items-start">
+            <AlertTriangle className="h-5 w-5 text-red-400 mt-0.5 mr-2" />
+            <div>
+              <h3 className="text-sm font-medium text-red-800">
+                File Validation Failed
+              </h3>
+              <p className="mt-1 text-sm text-red-700">
+                {headerValidationError}
+              </p>
+              <p className="mt-2 text-sm text-red-600">
+                Please ensure your CSV file contains all required headers and
+                that all required fields have values.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
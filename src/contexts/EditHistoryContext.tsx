@@ -0,0 +1,148 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  ReactNode,
+} from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { csvApi, CSVRow } from "../services/api";
+import { useAuth } from "./AuthContext";
+
+// Change made in the grid that can be undone: updated rows with the values of
+// the changed fields before and after, or deleted rows, which the server
+// keeps until they are restored
+export type EditHistoryEntry =
+  | {
+      type: "update";
+      rows: { id: number; before: Partial<CSVRow>; after: Partial<CSVRow> }[];
+    }
+  | { type: "delete"; ids: number[] };
+
+type HistoryDirection = "undo" | "redo";
+
+interface EditHistoryContextType {
+  record: (entry: EditHistoryEntry) => void;
+  undo: () => void;
+  redo: () => void;
+  // Changes the next undo and redo apply to, if any
+  undoEntry: EditHistoryEntry | null;
+  redoEntry: EditHistoryEntry | null;
+  isPending: boolean;
+}
+
+// Older changes are forgotten beyond this many
+const MAX_HISTORY_ENTRIES = 100;
+
+const EditHistoryContext = createContext<EditHistoryContextType | undefined>(
+  undefined
+);
+
+export const useEditHistory = () => {
+  const context = useContext(EditHistoryContext);
+  if (context === undefined) {
+    throw new Error(
+      "useEditHistory must be used within an EditHistoryProvider"
+    );
+  }
+  return context;
+};
+
+export const describeEditHistoryEntry = (entry: EditHistoryEntry) =>
+  entry.type === "update"
+    ? `edit of ${entry.rows.length} row(s)`
+    : `delete of ${entry.ids.length} row(s)`;
+
+// Sends the requests undoing or redoing a change
+const applyEntry = (entry: EditHistoryEntry, direction: HistoryDirection) => {
+  if (entry.type === "delete") {
+    return direction === "undo"
+      ? csvApi.restoreRows(entry.ids)
+      : csvApi.deleteRows({ ids: entry.ids });
+  }
+  return csvApi.bulkUpdateRows(
+    entry.rows.map((row) => ({
+      id: row.id,
+      data: direction === "undo" ? row.before : row.after,
+    }))
+  );
+};
+
+interface EditHistoryProviderProps {
+  children: ReactNode;
+}
+
+// Undo and redo history of grid edits and deletes for the current session;
+// it is kept in memory only and cleared when another user signs in
+export const EditHistoryProvider: React.FC<EditHistoryProviderProps> = ({
+  children,
+}) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [past, setPast] = useState<EditHistoryEntry[]>([]);
+  const [future, setFuture] = useState<EditHistoryEntry[]>([]);
+  const [isPending, setIsPending] = useState(false);
+
+  useEffect(() => {
+    setPast([]);
+    setFuture([]);
+  }, [user?.id]);
+
+  // A new change cannot be redone past, so it drops the redo history
+  const record = (entry: EditHistoryEntry) => {
+    setPast((prev) => [...prev, entry].slice(-MAX_HISTORY_ENTRIES));
+    setFuture([]);
+  };
+
+  // Moves the latest change between the undo and redo history once the
+  // server has applied it; on failure it stays where it was
+  const step = async (direction: HistoryDirection) => {
+    const stack = direction === "undo" ? past : future;
+    const entry = stack[stack.length - 1];
+    if (!entry || isPending) return;
+
+    setIsPending(true);
+    try {
+      await applyEntry(entry, direction);
+      if (direction === "undo") {
+        setPast((prev) => prev.slice(0, -1));
+        setFuture((prev) => [...prev, entry]);
+      } else {
+        setFuture((prev) => prev.slice(0, -1));
+        setPast((prev) => [...prev, entry]);
+      }
+      toast.success(
+        `${direction === "undo" ? "Undid" : "Redid"} ${describeEditHistoryEntry(
+          entry
+        )}`
+      );
+      queryClient.invalidateQueries({ queryKey: ["csvData"] });
+      queryClient.invalidateQueries({ queryKey: ["duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["invalidRowsCount"] });
+      queryClient.invalidateQueries({ queryKey: ["editedRowsCount"] });
+      queryClient.invalidateQueries({ queryKey: ["auditLogs"] });
+    } catch (error: any) {
+      toast.error(direction === "undo" ? "Undo failed" : "Redo failed", {
+        description: error.response?.data?.error || "Please try again.",
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const value: EditHistoryContextType = {
+    record,
+    undo: () => step("undo"),
+    redo: () => step("redo"),
+    undoEntry: past[past.length - 1] || null,
+    redoEntry: future[future.length - 1] || null,
+    isPending,
+  };
+
+  return (
+    <EditHistoryContext.Provider value={value}>
+      {children}
+    </EditHistoryContext.Provider>
+  );
+};
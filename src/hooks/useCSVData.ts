@@ -1,44 +1,190 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { csvApi, CSVRow, ApiResponse, UploadResponse } from "../services/api";
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  csvApi,
+  CSVRow,
+  ApiResponse,
+  BulkDeleteResponse,
+  BulkUpdateResponse,
+  DataQuery,
+  MatchingRowsUpdate,
+  RowChange,
+  RowSelection,
+  UploadOptions,
+  UploadProgress,
+  UploadResponse,
+} from "../services/api";
+import {
+  CHUNKED_UPLOAD_THRESHOLD,
+  previewFileInChunks,
+  uploadFileInChunks,
+} from "../services/csv/chunkedUpload";
+import { useEditHistory } from "../contexts/EditHistoryContext";
+import axios from "axios";
 import { toast } from "sonner";
 // CSV safety utilities are available for future use
 // import { sanitizeCSVRow, createSafeCSVRow, createCSVHeaders } from "../utils/csvSafety";
 
 // Query keys
 export const queryKeys = {
-  csvData: (page: number, search: string) => ["csvData", page, search] as const,
+  csvData: (page: number, query: DataQuery) =>
+    ["csvData", page, query] as const,
+  csvDataInfinite: (query: DataQuery) =>
+    ["csvData", "infinite", query] as const,
 };
 
-// Hook for fetching CSV data
-export const useCSVData = (page: number = 1, search: string = "") => {
+const fetchDataPage = async (page: number, query: DataQuery) => {
+  const response = await csvApi.getData(
+    page,
+    query.pageSize,
+    query.search,
+    query.batchId,
+    query.sort,
+    query.filters
+  );
+  return response.data as ApiResponse<CSVRow[]>;
+};
+
+// Hook for fetching one page of CSV data
+export const useCSVData = (
+  page: number,
+  query: DataQuery,
+  enabled: boolean = true
+) => {
   return useQuery({
-    queryKey: queryKeys.csvData(page, search),
-    queryFn: async () => {
-      const response = await csvApi.getData(page, 40, search);
-      return response.data as ApiResponse<CSVRow[]>;
-    },
+    queryKey: queryKeys.csvData(page, query),
+    queryFn: () => fetchDataPage(page, query),
+    enabled,
+    // Keep showing the current rows (and the grid's filter inputs) while
+    // another page, sort or filter loads
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+};
+
+// Hook for fetching CSV data page after page, for the grid's scrolling mode
+export const useInfiniteCSVData = (
+  query: DataQuery,
+  enabled: boolean = true
+) => {
+  return useInfiniteQuery({
+    queryKey: queryKeys.csvDataInfinite(query),
+    queryFn: ({ pageParam }) => fetchDataPage(pageParam, query),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage, pages) =>
+      pages.length * query.pageSize < lastPage.total
+        ? pages.length + 1
+        : undefined,
+    enabled,
+    placeholderData: keepPreviousData,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
   });
 };
 
 // Hook for uploading CSV file
+// Large files go in resumable chunks, small ones in a single request.
+// Upserts and replacements were previewed in a chunked session, which is
+// completed without sending the file again.
+const isChunkedUpload = (file: File, options: UploadOptions) =>
+  file.size > CHUNKED_UPLOAD_THRESHOLD ||
+  (options.importMode || "append") !== "append";
+
 export const useUploadCSV = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (file: File) => csvApi.uploadFile(file),
+    mutationFn: ({
+      file,
+      signal,
+      onProgress,
+      ...options
+    }: {
+      file: File;
+      signal?: AbortSignal;
+      onProgress?: (progress: UploadProgress) => void;
+    } & UploadOptions) =>
+      isChunkedUpload(file, options)
+        ? uploadFileInChunks(file, options, { signal, onProgress })
+        : csvApi.uploadFile(file, options, {
+            signal,
+            onUploadProgress: (event) =>
+              onProgress?.({
+                loaded: event.loaded,
+                total: event.total ?? file.size,
+              }),
+          }),
     onSuccess: (response) => {
       const data = response.data as UploadResponse;
       if (data.success) {
         // Invalidate and refetch data
         queryClient.invalidateQueries({ queryKey: ["csvData"] });
+        queryClient.invalidateQueries({ queryKey: ["duplicates"] });
         queryClient.invalidateQueries({ queryKey: ["invalidRowsCount"] });
         queryClient.invalidateQueries({ queryKey: ["editedRowsCount"] });
+        queryClient.invalidateQueries({ queryKey: ["uploadBatches"] });
       }
     },
-    onError: (error: any) => {
+    onError: (error: any, variables) => {
+      if (axios.isCancel(error)) {
+        toast.info("Upload cancelled");
+        return;
+      }
+      // Interrupted chunked uploads continue from the last stored chunk
+      const canResume =
+        !error.response && isChunkedUpload(variables.file, variables);
       toast.error("Upload failed", {
+        description:
+          error.response?.data?.error ||
+          (canResume
+            ? "Connection lost. Upload the file again to resume."
+            : "Please try again."),
+      });
+    },
+  });
+};
+
+// Hook for previewing the changes an import would make
+export const usePreviewImport = () => {
+  return useMutation({
+    mutationFn: ({
+      file,
+      signal,
+      onProgress,
+      ...options
+    }: {
+      file: File;
+      signal?: AbortSignal;
+      onProgress?: (progress: UploadProgress) => void;
+    } & UploadOptions) =>
+      // The file is sent to an upload session, which the confirmed import
+      // completes
+      previewFileInChunks(file, options, { signal, onProgress }),
+    onError: (error: any) => {
+      if (axios.isCancel(error)) {
+        toast.info("Preview cancelled");
+        return;
+      }
+      toast.error("Failed to preview import", {
+        description: error.response?.data?.error || "Please try again.",
+      });
+    },
+  });
+};
+
+// Hook for validating a file on the server without importing it
+export const useValidateFile = () => {
+  return useMutation({
+    mutationFn: ({ file, ...options }: { file: File } & UploadOptions) =>
+      csvApi.validateFile(file, options),
+    onError: (error: any) => {
+      toast.error("Server validation failed", {
         description: error.response?.data?.error || "Please try again.",
       });
     },
@@ -70,17 +216,32 @@ export const useDownloadErrorFile = () => {
   });
 };
 
-// Hook for updating a row
+// Hook for updating a row; updates given the previous values of the changed
+// fields are added to the undo history
 export const useUpdateRow = () => {
   const queryClient = useQueryClient();
+  const { record } = useEditHistory();
 
   return useMutation({
-    mutationFn: ({ id, data }: { id: number; data: Partial<CSVRow> }) =>
-      csvApi.updateRow(id, data),
-    onSuccess: () => {
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: number;
+      data: Partial<CSVRow>;
+      previous?: Partial<CSVRow>;
+    }) => csvApi.updateRow(id, data),
+    onSuccess: (_, { id, data, previous }) => {
       toast.success("Row updated successfully!");
+      if (previous) {
+        record({
+          type: "update",
+          rows: [{ id, before: previous, after: data }],
+        });
+      }
       // Invalidate and refetch data
       queryClient.invalidateQueries({ queryKey: ["csvData"] });
+      queryClient.invalidateQueries({ queryKey: ["duplicates"] });
       queryClient.invalidateQueries({ queryKey: ["invalidRowsCount"] });
       queryClient.invalidateQueries({ queryKey: ["editedRowsCount"] });
       queryClient.invalidateQueries({ queryKey: ["auditLogs"] });
@@ -119,16 +280,99 @@ export const useExportData = () => {
   });
 };
 
+// Hook for saving changes to several rows in one request
+export const useBulkUpdateRows = () => {
+  const queryClient = useQueryClient();
+  const { record } = useEditHistory();
+
+  return useMutation({
+    // Previous values stay here for the undo history
+    mutationFn: (changes: RowChange[]) =>
+      csvApi.bulkUpdateRows(changes.map(({ id, data }) => ({ id, data }))),
+    onSuccess: (response, changes) => {
+      const data = response.data as BulkUpdateResponse;
+      toast.success(`${data.updatedRows} row(s) updated successfully!`);
+      record({
+        type: "update",
+        rows: changes.map(({ id, data, previous }) => ({
+          id,
+          before: previous,
+          after: data,
+        })),
+      });
+      queryClient.invalidateQueries({ queryKey: ["csvData"] });
+      queryClient.invalidateQueries({ queryKey: ["duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["invalidRowsCount"] });
+      queryClient.invalidateQueries({ queryKey: ["editedRowsCount"] });
+      queryClient.invalidateQueries({ queryKey: ["auditLogs"] });
+    },
+    onError: (error: any) => {
+      toast.error("Bulk update failed", {
+        description: error.response?.data?.error || "Please try again.",
+      });
+    },
+  });
+};
+
+// Hook for applying bulk edit operations on the server to every row matching
+// a filter, including rows that are not loaded; the server returns the
+// previous values for the undo history
+export const useBulkUpdateMatchingRows = () => {
+  const queryClient = useQueryClient();
+  const { record } = useEditHistory();
+
+  return useMutation({
+    mutationFn: (data: MatchingRowsUpdate) =>
+      csvApi.bulkUpdateMatchingRows(data),
+    onSuccess: (response) => {
+      const data = response.data as BulkUpdateResponse;
+      toast.success(`${data.updatedRows} row(s) updated successfully!`, {
+        description: data.skippedRows
+          ? `${data.skippedRows} row(s) would break a column rule and were skipped`
+          : undefined,
+      });
+      if (data.changedRows && data.changedRows.length > 0) {
+        record({
+          type: "update",
+          rows: data.changedRows.map((row) => ({
+            id: row.id,
+            before: row.previous,
+            after: row.data,
+          })),
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ["csvData"] });
+      queryClient.invalidateQueries({ queryKey: ["duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["invalidRowsCount"] });
+      queryClient.invalidateQueries({ queryKey: ["editedRowsCount"] });
+      queryClient.invalidateQueries({ queryKey: ["auditLogs"] });
+    },
+    onError: (error: any) => {
+      toast.error("Bulk update failed", {
+        description: error.response?.data?.error || "Please try again.",
+      });
+    },
+  });
+};
+
 // Hook for deleting multiple rows
 export const useDeleteRows = () => {
   const queryClient = useQueryClient();
+  const { record } = useEditHistory();
 
   return useMutation({
-    mutationFn: (ids: number[]) => csvApi.deleteRows(ids),
-    onSuccess: (_, ids) => {
-      toast.success(`${ids.length} row(s) deleted successfully!`);
+    mutationFn: (selection: RowSelection) => csvApi.deleteRows(selection),
+    onSuccess: (response, selection) => {
+      const data = response.data as BulkDeleteResponse;
+      // Rows deleted by filter are only counted by the server
+      const count =
+        "ids" in selection ? selection.ids.length : data.deletedRows;
+      toast.success(`${count} row(s) deleted successfully!`);
+      const ids = "ids" in selection ? selection.ids : data.deletedIds;
+      if (ids && ids.length > 0) record({ type: "delete", ids });
       // Invalidate and refetch data
       queryClient.invalidateQueries({ queryKey: ["csvData"] });
+      queryClient.invalidateQueries({ queryKey: ["duplicates"] });
       queryClient.invalidateQueries({ queryKey: ["invalidRowsCount"] });
       queryClient.invalidateQueries({ queryKey: ["editedRowsCount"] });
       queryClient.invalidateQueries({ queryKey: ["auditLogs"] });
@@ -143,12 +387,15 @@ export const useDeleteRows = () => {
 
 export const useDelete = () => {
   const queryClient = useQueryClient();
+  const { record } = useEditHistory();
 
   return useMutation({
     mutationFn: (id: number) => csvApi.deleteRow(id),
     onSuccess: (_, id) => {
       toast.success(`${id} row(s) deleted successfully!`);
+      record({ type: "delete", ids: [id] });
       queryClient.invalidateQueries({ queryKey: ["csvData"] });
+      queryClient.invalidateQueries({ queryKey: ["duplicates"] });
       queryClient.invalidateQueries({ queryKey: ["invalidRowsCount"] });
       queryClient.invalidateQueries({ queryKey: ["editedRowsCount"] });
       queryClient.invalidateQueries({ queryKey: ["auditLogs"] });
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CSVDialect } from "../utils/csvDialect";
+import { ColumnMapping } from "../utils/headerValidation";
+import { EditableRow } from "../utils/csvCorrection";
+import {
+  CSVValidationProgress,
+  CSVValidationRequest,
+  CSVValidationResponse,
+  CSVValidationResult,
+} from "../workers/csvValidation.types";
+
+// Final message of a worker run: the validation result or the file's rows
+type CSVWorkerResult = Exclude<
+  CSVValidationResponse,
+  { type: "progress" } | { type: "error" }
+>;
+
+// Hook for validating a CSV file, or reading its rows for fixing, in a
+// background worker. validate() and readRows() resolve with null when the
+// run is cancelled.
+export const useCSVValidation = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const resolveRef = useRef<((result: CSVWorkerResult | null) => void) | null>(
+    null
+  );
+  const [progress, setProgress] = useState<CSVValidationProgress | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setIsValidating(false);
+  }, []);
+
+  const cancel = useCallback(() => {
+    stopWorker();
+    setProgress(null);
+    resolveRef.current?.(null);
+    resolveRef.current = null;
+  }, [stopWorker]);
+
+  const runWorker = useCallback(
+    (request: CSVValidationRequest) => {
+      // Only one run at a time
+      cancel();
+
+      return new Promise<CSVWorkerResult | null>((resolve, reject) => {
+        const worker = new Worker(
+          new URL("../workers/csvValidation.worker.ts", import.meta.url),
+          { type: "module" }
+        );
+        workerRef.current = worker;
+        resolveRef.current = resolve;
+        setIsValidating(true);
+        setProgress({
+          bytesRead: 0,
+          totalBytes: request.file.size,
+          rowsScanned: 0,
+          errorCount: 0,
+        });
+
+        worker.onmessage = (event: MessageEvent<CSVValidationResponse>) => {
+          const message = event.data;
+          if (message.type === "progress") {
+            setProgress(message.progress);
+            return;
+          }
+
+          resolveRef.current = null;
+          stopWorker();
+          if (message.type === "error") {
+            reject(new Error(message.message));
+          } else {
+            resolve(message);
+          }
+        };
+
+        worker.onerror = (event) => {
+          resolveRef.current = null;
+          stopWorker();
+          reject(new Error(event.message || "Failed to validate CSV file"));
+        };
+
+        worker.postMessage(request);
+      });
+    },
+    [cancel, stopWorker]
+  );
+
+  const validate = useCallback(
+    async (
+      file: File,
+      dialect: CSVDialect,
+      mapping?: ColumnMapping
+    ): Promise<CSVValidationResult | null> => {
+      const message = await runWorker({
+        type: "validate",
+        file,
+        dialect,
+        mapping,
+      });
+      return message?.type === "done" ? message.result : null;
+    },
+    [runWorker]
+  );
+
+  const readRows = useCallback(
+    async (
+      file: File,
+      dialect: CSVDialect
+    ): Promise<{ headers: string[]; rows: EditableRow[] } | null> => {
+      const message = await runWorker({ type: "readRows", file, dialect });
+      return message?.type === "rows"
+        ? { headers: message.headers, rows: message.rows }
+        : null;
+    },
+    [runWorker]
+  );
+
+  // Terminate any running worker when the component unmounts; a pending run
+  // resolves as cancelled so callers awaiting it do not hang
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      resolveRef.current?.(null);
+      resolveRef.current = null;
+    };
+  }, []);
+
+  return { validate, readRows, cancel, progress, isValidating };
+};
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { csvApi, GridLayoutResponse } from "../services/api";
+import {
+  ColumnLayout,
+  DEFAULT_COLUMN_LAYOUT,
+  isSameColumnLayout,
+  normalizeColumnLayout,
+} from "../utils/gridColumns";
+import { useDebounce } from "./useDebounce";
+import { toast } from "sonner";
+
+// Hook for fetching the user's stored data grid column layout
+export const useGridLayout = () => {
+  return useQuery({
+    queryKey: ["gridLayout"],
+    queryFn: () => csvApi.getGridLayout(),
+    select: (response): GridLayoutResponse => response.data,
+    staleTime: Infinity,
+  });
+};
+
+export const useSaveGridLayout = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (layout: ColumnLayout) => csvApi.saveGridLayout(layout),
+    onSuccess: (response) => {
+      queryClient.setQueryData(["gridLayout"], response);
+    },
+    onError: (error: any) => {
+      toast.error("Failed to save column layout", {
+        description: error.response?.data?.error || "Please try again",
+      });
+    },
+  });
+};
+
+// Hook for the column layout shown in the grid: starts from the stored
+// layout, applies changes at once and saves them once they pause, so
+// dragging a column edge does not save every pixel
+export const useColumnLayout = () => {
+  const { data, isSuccess } = useGridLayout();
+  const saveLayoutMutation = useSaveGridLayout();
+  const [layout, setLayout] = useState<ColumnLayout | null>(null);
+  const debouncedLayout = useDebounce(layout, 500);
+  const savedLayout = useRef<ColumnLayout | null>(null);
+
+  // Take the stored layout once it has loaded, unless it was already changed
+  useEffect(() => {
+    if (!isSuccess) return;
+    savedLayout.current = normalizeColumnLayout(data?.data);
+    setLayout((current) => current || savedLayout.current);
+  }, [isSuccess]);
+
+  useEffect(() => {
+    if (
+      debouncedLayout &&
+      !(
+        savedLayout.current &&
+        isSameColumnLayout(debouncedLayout, savedLayout.current)
+      )
+    ) {
+      savedLayout.current = debouncedLayout;
+      saveLayoutMutation.mutate(debouncedLayout);
+    }
+  }, [debouncedLayout]);
+
+  const updateLayout = (update: (layout: ColumnLayout) => ColumnLayout) => {
+    setLayout((current) => update(current || DEFAULT_COLUMN_LAYOUT));
+  };
+
+  return [layout || DEFAULT_COLUMN_LAYOUT, updateLayout] as const;
+};
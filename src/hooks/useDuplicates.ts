@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  csvApi,
+  DuplicateGroupsResponse,
+  MergeDuplicatesRequest,
+  MergeDuplicatesResponse,
+} from "../services/api";
+import { toast } from "sonner";
+
+// Hook for fetching groups of rows sharing a part mark
+export const useDuplicates = (
+  page: number = 1,
+  limit: number = 20,
+  search: string = "",
+  includeIntentional: boolean = false
+) => {
+  return useQuery({
+    queryKey: ["duplicates", page, limit, search, includeIntentional],
+    queryFn: () =>
+      csvApi.getDuplicates(page, limit, search, includeIntentional),
+    select: (response): DuplicateGroupsResponse => response.data,
+  });
+};
+
+// Hook for merging duplicate rows into the row that is kept
+export const useMergeDuplicates = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: MergeDuplicatesRequest) => csvApi.mergeDuplicates(data),
+    onSuccess: (response) => {
+      const data = response.data as MergeDuplicatesResponse;
+      toast.success(
+        `Merged ${data.deletedRows} row(s) into ${data.data.part_mark}`
+      );
+      queryClient.invalidateQueries({ queryKey: ["duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["csvData"] });
+      queryClient.invalidateQueries({ queryKey: ["invalidRowsCount"] });
+      queryClient.invalidateQueries({ queryKey: ["editedRowsCount"] });
+      queryClient.invalidateQueries({ queryKey: ["auditLogs"] });
+    },
+    onError: (error: any) => {
+      toast.error("Merge failed", {
+        description: error.response?.data?.error || "Please try again",
+      });
+    },
+  });
+};
+
+// Hook for marking a part mark's duplicates as intentional, or undoing that
+export const useSetDuplicateIntentional = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      partMark,
+      intentional,
+    }: {
+      partMark: string;
+      intentional: boolean;
+    }) => csvApi.setDuplicateIntentional(partMark, intentional),
+    onSuccess: (_, { partMark, intentional }) => {
+      toast.success(
+        intentional
+          ? `${partMark} marked as intentional`
+          : `${partMark} flagged as duplicate again`
+      );
+      queryClient.invalidateQueries({ queryKey: ["duplicates"] });
+    },
+    onError: (error: any) => {
+      toast.error("Failed to update duplicate", {
+        description: error.response?.data?.error || "Please try again",
+      });
+    },
+  });
+};
+
+// Hook for looking up stored rows with the part marks of a file being
+// uploaded; failures are silent since the check is only advisory
+export const useCheckDuplicates = () => {
+  return useMutation({
+    mutationFn: (partMarks: string[]) => csvApi.checkDuplicates(partMarks),
+  });
+};
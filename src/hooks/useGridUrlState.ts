@@ -0,0 +1,28 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  GridState,
+  readGridState,
+  writeGridState,
+} from "../utils/gridUrlState";
+
+// Hook for the data grid's state kept in the URL query string. Every update
+// adds a history entry unless replace is set, so back/forward step through
+// the views
+export const useGridUrlState = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const gridState = useMemo(() => readGridState(searchParams), [searchParams]);
+
+  const updateGridState = useCallback(
+    (changes: Partial<GridState>, options: { replace?: boolean } = {}) => {
+      setSearchParams(
+        (params) =>
+          writeGridState(params, { ...readGridState(params), ...changes }),
+        options
+      );
+    },
+    [setSearchParams]
+  );
+
+  return [gridState, updateGridState] as const;
+};
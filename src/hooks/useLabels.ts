@@ -1,6 +1,7 @@
 import { useMutation } from "@tanstack/react-query";
 import { labelApi } from "../services/label/label.service";
 import { BulkLabelResponse } from "../services/label";
+import { RowSelection } from "../services/api";
 
 // Hook for generating ZPL label
 export const useGenerateZPLLabel = () => {
@@ -43,7 +44,8 @@ export const useGeneratePDFLabel = () => {
 // Hook for generating bulk labels
 export const useGenerateBulkLabels = () => {
   return useMutation({
-    mutationFn: (ids: number[]) => labelApi.generateBulkLabels(ids),
+    mutationFn: (selection: RowSelection) =>
+      labelApi.generateBulkLabels(selection),
     onSuccess: (response: { data: BulkLabelResponse }) => {
       // Handle bulk label generation response
       console.log("Bulk labels generated:", response.data);
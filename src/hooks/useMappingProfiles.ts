@@ -0,0 +1,96 @@
+import { useCallback } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  csvApi,
+  MappingProfile,
+  MappingProfileRequest,
+  MappingProfilesResponse,
+} from "../services/api";
+import { toast } from "sonner";
+
+const mappingProfilesQuery = {
+  queryKey: ["mappingProfiles"],
+  queryFn: () => csvApi.getMappingProfiles(),
+};
+
+// Hook for fetching saved header mapping profiles
+export const useMappingProfiles = () => {
+  return useQuery({
+    ...mappingProfilesQuery,
+    select: (response): MappingProfilesResponse => response.data,
+  });
+};
+
+// Returns a loader for the saved profiles that waits for the request in
+// flight, so a file queued right after page load still sees them; resolves
+// to no profiles when they can't be loaded
+export const useLoadMappingProfiles = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(async (): Promise<MappingProfile[]> => {
+    try {
+      const response = await queryClient.ensureQueryData(mappingProfilesQuery);
+      return (response.data as MappingProfilesResponse).data;
+    } catch {
+      return [];
+    }
+  }, [queryClient]);
+};
+
+export const useCreateMappingProfile = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: MappingProfileRequest) =>
+      csvApi.createMappingProfile(data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["mappingProfiles"] });
+      toast.success(`Mapping profile "${variables.name}" saved`);
+    },
+    onError: (error: any) => {
+      toast.error("Failed to save mapping profile", {
+        description: error.response?.data?.error || "Please try again",
+      });
+    },
+  });
+};
+
+export const useUpdateMappingProfile = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: number;
+      data: Partial<MappingProfileRequest>;
+    }) => csvApi.updateMappingProfile(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["mappingProfiles"] });
+      toast.success("Mapping profile updated successfully");
+    },
+    onError: (error: any) => {
+      toast.error("Failed to update mapping profile", {
+        description: error.response?.data?.error || "Please try again",
+      });
+    },
+  });
+};
+
+export const useDeleteMappingProfile = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => csvApi.deleteMappingProfile(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["mappingProfiles"] });
+      toast.success("Mapping profile deleted successfully");
+    },
+    onError: (error: any) => {
+      toast.error("Failed to delete mapping profile", {
+        description: error.response?.data?.error || "Please try again",
+      });
+    },
+  });
+};
@@ -0,0 +1,69 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { csvApi, SavedViewRequest, SavedViewsResponse } from "../services/api";
+import { toast } from "sonner";
+
+// Hook for fetching the user's saved grid views and the shared ones
+export const useSavedViews = () => {
+  return useQuery({
+    queryKey: ["savedViews"],
+    queryFn: () => csvApi.getSavedViews(),
+    select: (response): SavedViewsResponse => response.data,
+  });
+};
+
+export const useCreateSavedView = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SavedViewRequest) => csvApi.createSavedView(data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["savedViews"] });
+      toast.success(`View "${variables.name}" saved`);
+    },
+    onError: (error: any) => {
+      toast.error("Failed to save view", {
+        description: error.response?.data?.error || "Please try again",
+      });
+    },
+  });
+};
+
+export const useUpdateSavedView = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: number;
+      data: Partial<SavedViewRequest>;
+    }) => csvApi.updateSavedView(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["savedViews"] });
+      toast.success("View updated successfully");
+    },
+    onError: (error: any) => {
+      toast.error("Failed to update view", {
+        description: error.response?.data?.error || "Please try again",
+      });
+    },
+  });
+};
+
+export const useDeleteSavedView = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => csvApi.deleteSavedView(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["savedViews"] });
+      toast.success("View deleted successfully");
+    },
+    onError: (error: any) => {
+      toast.error("Failed to delete view", {
+        description: error.response?.data?.error || "Please try again",
+      });
+    },
+  });
+};
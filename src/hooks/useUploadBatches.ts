@@ -0,0 +1,82 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  csvApi,
+  RollbackBatchResponse,
+  UploadBatch,
+  UploadBatchResponse,
+  UploadBatchesResponse,
+} from "../services/api";
+import { toast } from "sonner";
+
+// Hook for fetching the history of upload batches
+export const useUploadBatches = (
+  page: number = 1,
+  limit: number = 50,
+  search: string = ""
+) => {
+  return useQuery({
+    queryKey: ["uploadBatches", page, limit, search],
+    queryFn: () => csvApi.getUploadBatches(page, limit, search),
+    select: (response): UploadBatchesResponse => response.data,
+  });
+};
+
+// Hook for fetching a single batch, e.g. the one the grid is filtered to
+export const useUploadBatch = (id?: number) => {
+  return useQuery({
+    queryKey: ["uploadBatches", "detail", id],
+    queryFn: () => csvApi.getUploadBatch(id as number),
+    select: (response): UploadBatchResponse => response.data,
+    enabled: !!id,
+  });
+};
+
+// Hook for downloading the error file of a batch
+export const useDownloadBatchErrorFile = () => {
+  return useMutation({
+    mutationFn: (batch: UploadBatch) => csvApi.downloadBatchErrorFile(batch.id),
+    onSuccess: (response, batch) => {
+      const blob = new Blob([response.data], { type: "text/csv" });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `error-${batch.source_filename.replace(/\.[^.]*$/, "")}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      toast.success("Error file downloaded successfully!");
+    },
+    onError: (error: any) => {
+      toast.error("Failed to download error file", {
+        description: error.response?.data?.error || "Please try again",
+      });
+    },
+  });
+};
+
+// Hook for rolling back a batch, i.e. deleting all rows it imported
+export const useRollbackBatch = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (batch: UploadBatch) => csvApi.rollbackBatch(batch.id),
+    onSuccess: (response, batch) => {
+      const data = response.data as RollbackBatchResponse;
+      toast.success(
+        `Rolled back ${batch.source_filename}: ${data.deletedRows} row(s) deleted`
+      );
+      queryClient.invalidateQueries({ queryKey: ["uploadBatches"] });
+      queryClient.invalidateQueries({ queryKey: ["csvData"] });
+      queryClient.invalidateQueries({ queryKey: ["duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["invalidRowsCount"] });
+      queryClient.invalidateQueries({ queryKey: ["editedRowsCount"] });
+      queryClient.invalidateQueries({ queryKey: ["auditLogs"] });
+    },
+    onError: (error: any) => {
+      toast.error("Rollback failed", {
+        description: error.response?.data?.error || "Please try again",
+      });
+    },
+  });
+};
@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+
+// Hook for rendering only the rows of a long list that are in view. Rows are
+// assumed to be rowHeight pixels high; the skipped rows are replaced by
+// padding so the scrollbar matches the full list
+export const useVirtualRows = (
+  rowCount: number,
+  rowHeight: number,
+  enabled: boolean,
+  overscan: number = 10
+) => {
+  // Callback ref, since the container may mount after the hook first runs
+  const [container, containerRef] = useState<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  // Track the height of the scroll container
+  useEffect(() => {
+    if (!enabled || !container) return;
+    const observer = new ResizeObserver(() => {
+      setViewportHeight(container.clientHeight);
+    });
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => observer.disconnect();
+  }, [container, enabled]);
+
+  const handleScroll = (event: React.UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  };
+
+  const scrollToTop = () => {
+    if (container) container.scrollTop = 0;
+    setScrollTop(0);
+  };
+
+  const start = enabled
+    ? Math.max(0, Math.floor(scrollTop / rowHeight) - overscan)
+    : 0;
+  const end = enabled
+    ? Math.min(
+        rowCount,
+        Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan
+      )
+    : rowCount;
+
+  return {
+    containerRef,
+    handleScroll,
+    scrollToTop,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, rowCount - end) * rowHeight,
+  };
+};
@@ -3,6 +3,7 @@ import ReactDOM from "react-dom/client";
 import App from "./App";
 import { QueryProvider } from "./providers/QueryProvider";
 import { AuthProvider } from "./contexts/AuthContext";
+import { EditHistoryProvider } from "./contexts/EditHistoryContext";
 import { Toaster } from "sonner";
 import "./index.css";
 
@@ -10,7 +11,9 @@ ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <QueryProvider>
       <AuthProvider>
-        <App />
+        <EditHistoryProvider>
+          <App />
+        </EditHistoryProvider>
         <Toaster position="bottom-right" richColors />
       </AuthProvider>
     </QueryProvider>
@@ -0,0 +1,345 @@
+import React, { useState } from "react";
+import {
+  useDuplicates,
+  useMergeDuplicates,
+  useSetDuplicateIntentional,
+} from "../hooks/useDuplicates";
+import { useDelete } from "../hooks/useCSVData";
+import { useDebounce } from "../hooks/useDebounce";
+import { CSVRow, DuplicateGroup } from "../services/api";
+import { findConflictingFields } from "../utils/duplicates";
+import { AlertTriangle, CheckCircle, GitMerge, Trash2 } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+// Row attributes shown for each duplicate, after the part mark
+const COLUMNS: { field: keyof CSVRow; label: string }[] = [
+  { field: "assembly_mark", label: "Assembly Mark" },
+  { field: "material", label: "Material" },
+  { field: "thickness", label: "Thickness" },
+  { field: "quantity", label: "Quantity" },
+  { field: "length", label: "Length" },
+  { field: "width", label: "Width" },
+  { field: "height", label: "Height" },
+  { field: "weight", label: "Weight" },
+  { field: "notes", label: "Notes" },
+];
+
+const getColumnLabel = (field: keyof CSVRow) =>
+  COLUMNS.find((column) => column.field === field)?.label || field;
+
+export const DuplicatesPage: React.FC = () => {
+  const [currentPage, setCurrentPage] = useState(1);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showIntentional, setShowIntentional] = useState(false);
+  // Row kept when merging, per part mark; defaults to the group's first row
+  const [keepIds, setKeepIds] = useState<Record<string, number>>({});
+  const debouncedSearchTerm = useDebounce(searchTerm, 300);
+
+  const { data, isLoading, error } = useDuplicates(
+    currentPage,
+    PAGE_SIZE,
+    debouncedSearchTerm,
+    showIntentional
+  );
+  const mergeMutation = useMergeDuplicates();
+  const intentionalMutation = useSetDuplicateIntentional();
+  const deleteMutation = useDelete();
+
+  const isMutating =
+    mergeMutation.isPending ||
+    intentionalMutation.isPending ||
+    deleteMutation.isPending;
+
+  const handleSearch = (term: string) => {
+    setSearchTerm(term);
+    setCurrentPage(1);
+  };
+
+  const getKeepId = (group: DuplicateGroup) => {
+    const keepId = keepIds[group.part_mark];
+    return group.rows.some((row) => row.id === keepId)
+      ? keepId
+      : group.rows[0]?.id;
+  };
+
+  const handleMerge = (group: DuplicateGroup) => {
+    const keepId = getKeepId(group);
+    const keepRow = group.rows.find((row) => row.id === keepId);
+    if (!keepRow) return;
+    const mergeIds = group.rows
+      .filter((row) => row.id !== keepId)
+      .map((row) => row.id);
+    if (
+      window.confirm(
+        `Merge ${mergeIds.length} row(s) into row ${keepRow.id} (${keepRow.part_mark} / ${keepRow.assembly_mark})? Their quantities are added to it and they are deleted.`
+      )
+    ) {
+      mergeMutation.mutate({ keepId, mergeIds });
+    }
+  };
+
+  const handleDelete = (row: CSVRow) => {
+    if (window.confirm("Are you sure you want to delete this row?")) {
+      deleteMutation.mutate(row.id);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h1 className="text-2xl font-semibold text-gray-900">Duplicates</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Rows sharing a part mark; merge or delete them, or mark them as
+              intentional
+            </p>
+          </div>
+
+          <div className="p-6">
+            {/* Filters */}
+            <div className="mb-6 flex flex-col sm:flex-row sm:items-end gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Filter by Part Mark
+                </label>
+                <input
+                  type="text"
+                  value={searchTerm}
+                  onChange={(e) => handleSearch(e.target.value)}
+                  placeholder="Enter part mark"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+                <input
+                  type="checkbox"
+                  checked={showIntentional}
+                  onChange={(e) => {
+                    setShowIntentional(e.target.checked);
+                    setCurrentPage(1);
+                  }}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                Show intentional duplicates
+              </label>
+            </div>
+
+            {/* Content */}
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                <span className="ml-3 text-gray-600">
+                  Loading duplicates...
+                </span>
+              </div>
+            ) : error ? (
+              <div className="text-center py-8">
+                <div className="text-red-600 mb-2">
+                  Error loading duplicates
+                </div>
+                <div className="text-sm text-gray-500">
+                  {error instanceof Error ? error.message : "Unknown error"}
+                </div>
+              </div>
+            ) : !data?.data || data.data.length === 0 ? (
+              <div className="text-center py-8">
+                <div className="text-gray-500">No duplicates found</div>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-6">
+                  {data.data.map((group) => {
+                    const conflictingFields = findConflictingFields(group.rows);
+                    const keepId = getKeepId(group);
+
+                    return (
+                      <div
+                        key={group.part_mark}
+                        className={`rounded-lg border ${
+                          group.is_intentional
+                            ? "border-gray-200"
+                            : conflictingFields.length > 0
+                            ? "border-red-200"
+                            : "border-yellow-200"
+                        }`}
+                      >
+                        {/* Group header */}
+                        <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <h2 className="text-sm font-semibold text-gray-900">
+                              {group.part_mark}
+                            </h2>
+                            <span className="text-sm text-gray-500">
+                              {group.rows.length} rows
+                            </span>
+                            {group.is_intentional && (
+                              <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-800">
+                                Intentional
+                              </span>
+                            )}
+                            {conflictingFields.length > 0 ? (
+                              <span className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                                <AlertTriangle className="h-3 w-3" />
+                                Conflicting{" "}
+                                {conflictingFields
+                                  .map(getColumnLabel)
+                                  .join(", ")}
+                              </span>
+                            ) : (
+                              <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                                Same attributes
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <button
+                              type="button"
+                              onClick={() =>
+                                intentionalMutation.mutate({
+                                  partMark: group.part_mark,
+                                  intentional: !group.is_intentional,
+                                })
+                              }
+                              disabled={isMutating}
+                              className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                            >
+                              <CheckCircle className="h-3 w-3" />
+                              {group.is_intentional
+                                ? "Not intentional"
+                                : "Mark as intentional"}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleMerge(group)}
+                              disabled={isMutating || group.rows.length < 2}
+                              className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                              title="Keep the selected row and merge the others into it"
+                            >
+                              <GitMerge className="h-3 w-3" />
+                              Merge into kept row
+                            </button>
+                          </div>
+                        </div>
+
+                        {/* Group rows */}
+                        <div className="overflow-x-auto">
+                          <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                              <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                  Keep
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                  id
+                                </th>
+                                {COLUMNS.map((column) => (
+                                  <th
+                                    key={column.field}
+                                    className={`px-3 py-2 text-left text-xs font-medium uppercase tracking-wider ${
+                                      conflictingFields.includes(column.field)
+                                        ? "text-red-700"
+                                        : "text-gray-500"
+                                    }`}
+                                  >
+                                    {column.label}
+                                  </th>
+                                ))}
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                  Actions
+                                </th>
+                              </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                              {group.rows.map((row) => (
+                                <tr
+                                  key={row.id}
+                                  className={
+                                    row.id === keepId ? "bg-blue-50" : ""
+                                  }
+                                >
+                                  <td className="px-3 py-2 whitespace-nowrap text-sm">
+                                    <input
+                                      type="radio"
+                                      name={`keep-${group.part_mark}`}
+                                      checked={row.id === keepId}
+                                      onChange={() =>
+                                        setKeepIds((prev) => ({
+                                          ...prev,
+                                          [group.part_mark]: row.id,
+                                        }))
+                                      }
+                                      disabled={isMutating}
+                                    />
+                                  </td>
+                                  <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                                    {row.id}
+                                  </td>
+                                  {COLUMNS.map((column) => (
+                                    <td
+                                      key={column.field}
+                                      className={`px-3 py-2 whitespace-nowrap text-sm ${
+                                        conflictingFields.includes(column.field)
+                                          ? "bg-red-50 text-red-800 font-medium"
+                                          : "text-gray-900"
+                                      }`}
+                                    >
+                                      {row[column.field] ?? "-"}
+                                    </td>
+                                  ))}
+                                  <td className="px-3 py-2 whitespace-nowrap text-sm font-medium">
+                                    <button
+                                      type="button"
+                                      onClick={() => handleDelete(row)}
+                                      disabled={isMutating}
+                                      className="text-red-600 hover:text-red-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                                      title="Delete row"
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </button>
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {/* Pagination */}
+                {data.pagination.totalPages > 1 && (
+                  <div className="mt-6 flex items-center justify-between">
+                    <div className="text-sm text-gray-700">
+                      Showing page {data.pagination.page} of{" "}
+                      {data.pagination.totalPages} ({data.pagination.total}{" "}
+                      total part marks)
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setCurrentPage(currentPage - 1)}
+                        disabled={currentPage === 1}
+                        className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+                      >
+                        Previous
+                      </button>
+                      <button
+                        onClick={() => setCurrentPage(currentPage + 1)}
+                        disabled={currentPage === data.pagination.totalPages}
+                        className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+                      >
+                        Next
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,28 +1,143 @@
-import React, { useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
 import { CSVUpload } from "../components/CSVUpload";
 import { DataGrid } from "../components/DataGrid";
-import { useCSVData, useUpdateRow, useExportData } from "../hooks/useCSVData";
+import { SavedViewsBar } from "../components/grid/SavedViewsBar";
+import {
+  useCSVData,
+  useInfiniteCSVData,
+  useUpdateRow,
+  useExportData,
+} from "../hooks/useCSVData";
 import { useDebounce } from "../hooks/useDebounce";
-import { CSVRow } from "../services/api";
+import { useUploadBatch } from "../hooks/useUploadBatches";
+import { useDuplicates } from "../hooks/useDuplicates";
+import { useGridUrlState } from "../hooks/useGridUrlState";
+import { useColumnLayout } from "../hooks/useColumnLayout";
+import {
+  CSVRow,
+  DataQuery,
+  RowFilter,
+  SavedViewState,
+  SortColumn,
+} from "../services/api";
+import {
+  areColumnFiltersEqual,
+  getViewState,
+  GridMode,
+} from "../utils/gridUrlState";
+import {
+  ColumnFilters,
+  columnFiltersToConditions,
+  describeCondition,
+  parseSearchQuery,
+} from "../utils/gridFilters";
 import {
   useExportInvalidRows,
   useExportEditedRows,
   useInvalidRowsCount,
   useEditedRowsCount,
 } from "../hooks/useExceptionExports";
-import { Search, Loader2, AlertTriangle, Edit3, Download } from "lucide-react";
+import {
+  Search,
+  Loader2,
+  AlertTriangle,
+  Edit3,
+  Download,
+  History,
+  Copy,
+  X,
+} from "lucide-react";
 
 export const HomePage: React.FC = () => {
-  const [currentPage, setCurrentPage] = useState(1);
-  const [searchTerm, setSearchTerm] = useState("");
+  // Page, page size, mode, search, sort, column filters and upload batch live
+  // in the URL so views can be shared and restored with back/forward
+  const [gridState, updateGridState] = useGridUrlState();
+  const { page: currentPage, pageSize, sort, batchId } = gridState;
+  const isScrollMode = gridState.mode === "scroll";
+  // Column order, visibility, widths and pinning, saved per user
+  const [columnLayout, updateColumnLayout] = useColumnLayout();
+  // Inputs are edited locally and written to the URL once typing pauses
+  const [searchTerm, setSearchTerm] = useState(gridState.search);
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const [columnFilters, setColumnFilters] = useState<ColumnFilters>(
+    gridState.columnFilters
+  );
+  const debouncedColumnFilters = useDebounce(columnFilters, 300);
+  // Structured terms of the search box (material:S355 thickness>=10) are
+  // sent as filters together with the column filters
+  const searchQuery = useMemo(
+    () => parseSearchQuery(gridState.search),
+    [gridState.search]
+  );
+  const filters = useMemo(
+    () => [
+      ...columnFiltersToConditions(gridState.columnFilters),
+      ...searchQuery.conditions,
+    ],
+    [gridState.columnFilters, searchQuery]
+  );
+  const dataQuery = useMemo<DataQuery>(
+    () => ({ search: searchQuery.text, batchId, sort, filters, pageSize }),
+    [searchQuery, batchId, sort, filters, pageSize]
+  );
+  // Rows the query matches, for actions on all of them
+  const rowFilter = useMemo<RowFilter>(
+    () => ({ search: searchQuery.text, batchId, filters }),
+    [searchQuery, batchId, filters]
+  );
+  const typedConditions = useMemo(
+    () => parseSearchQuery(searchTerm).conditions,
+    [searchTerm]
+  );
+  const { data: batchData } = useUploadBatch(batchId);
+  const batch = batchData?.data;
 
-  // React Query hooks
-  const {
-    data: queryData,
-    isLoading,
-    isFetching,
-  } = useCSVData(currentPage, debouncedSearchTerm);
+  // Write typed search and filters to the URL once they settle, starting from
+  // the first page. Typing replaces the history entry instead of adding one
+  // per pause, and only a newly settled value is written, so back/forward is
+  // not undone by the value typed before.
+  const settledSearchRef = useRef(debouncedSearchTerm);
+  useEffect(() => {
+    if (debouncedSearchTerm === settledSearchRef.current) return;
+    settledSearchRef.current = debouncedSearchTerm;
+    if (debouncedSearchTerm !== gridState.search) {
+      updateGridState(
+        { search: debouncedSearchTerm, page: 1 },
+        { replace: true }
+      );
+    }
+  }, [debouncedSearchTerm, gridState.search, updateGridState]);
+
+  const settledColumnFiltersRef = useRef(debouncedColumnFilters);
+  useEffect(() => {
+    if (debouncedColumnFilters === settledColumnFiltersRef.current) return;
+    settledColumnFiltersRef.current = debouncedColumnFilters;
+    if (
+      !areColumnFiltersEqual(debouncedColumnFilters, gridState.columnFilters)
+    ) {
+      updateGridState(
+        { columnFilters: debouncedColumnFilters, page: 1 },
+        { replace: true }
+      );
+    }
+  }, [debouncedColumnFilters, gridState.columnFilters, updateGridState]);
+
+  // Show the URL's search and filters after back/forward or a followed link
+  useEffect(() => {
+    setSearchTerm(gridState.search);
+  }, [gridState.search]);
+
+  // Compared by value, since the filters object is rebuilt on every URL change
+  const urlColumnFiltersKey = JSON.stringify(gridState.columnFilters);
+  useEffect(() => {
+    setColumnFilters(gridState.columnFilters);
+  }, [urlColumnFiltersKey]);
+
+  // React Query hooks; only the query of the current mode is enabled
+  const pagedQuery = useCSVData(currentPage, dataQuery, !isScrollMode);
+  const infiniteQuery = useInfiniteCSVData(dataQuery, isScrollMode);
+  const { isLoading, isFetching } = isScrollMode ? infiniteQuery : pagedQuery;
   const updateRowMutation = useUpdateRow();
 
   // Export hooks
@@ -31,21 +146,65 @@ export const HomePage: React.FC = () => {
   const exportEditedRowsMutation = useExportEditedRows();
   const { data: invalidRowsCountData } = useInvalidRowsCount();
   const { data: editedRowsCountData } = useEditedRowsCount();
+  // Only the total number of duplicated part marks is needed here
+  const { data: duplicatesData } = useDuplicates(1, 1);
+  const duplicatesCount = duplicatesData?.pagination.total || 0;
 
-  // Extract data from query result
-  const data = queryData?.data || [];
-  const total = queryData?.total || 0;
+  // Extract data from query result; scroll mode shows every loaded page
+  const data = useMemo(
+    () =>
+      isScrollMode
+        ? infiniteQuery.data?.pages.flatMap((page) => page.data) || []
+        : pagedQuery.data?.data || [],
+    [isScrollMode, infiniteQuery.data, pagedQuery.data]
+  );
+  const total =
+    (isScrollMode
+      ? infiniteQuery.data?.pages[0]?.total
+      : pagedQuery.data?.total) || 0;
 
   const handleSearch = (term: string) => {
     setSearchTerm(term);
-    // Reset to page 1 when searching to ensure results are shown from the beginning
-    if (currentPage !== 1) {
-      setCurrentPage(1);
-    }
   };
 
-  const handleUpdateRow = (id: number, updatedData: Partial<CSVRow>) => {
-    updateRowMutation.mutate({ id, data: updatedData });
+  // Search and filters still being typed are written along with the page, so
+  // they don't reset it to the first page once they settle
+  const handlePageChange = (page: number) => {
+    updateGridState({ search: searchTerm, columnFilters, page });
+  };
+
+  const handleModeChange = (mode: GridMode) => {
+    updateGridState({ mode, page: 1 });
+  };
+
+  const handlePageSizeChange = (nextPageSize: number) => {
+    updateGridState({ pageSize: nextPageSize, page: 1 });
+  };
+
+  const handleColumnFiltersChange = (nextFilters: ColumnFilters) => {
+    setColumnFilters(nextFilters);
+  };
+
+  const handleClearBatch = () => {
+    updateGridState({ batchId: undefined, page: 1 });
+  };
+
+  const handleSortChange = (nextSort: SortColumn[]) => {
+    updateGridState({ sort: nextSort, page: 1 });
+  };
+
+  const handleApplyView = (viewState: SavedViewState) => {
+    const { hiddenColumns, ...urlState } = viewState;
+    updateGridState({ ...urlState, page: 1 });
+    updateColumnLayout((layout) => ({ ...layout, hidden: hiddenColumns }));
+  };
+
+  const handleUpdateRow = (
+    id: number,
+    updatedData: Partial<CSVRow>,
+    previous?: Partial<CSVRow>
+  ) => {
+    updateRowMutation.mutate({ id, data: updatedData, previous });
   };
 
   const handleExport = () => {
@@ -99,6 +258,15 @@ export const HomePage: React.FC = () => {
             </button>
           </div>
 
+          <Link
+            to="/duplicates"
+            className="px-3 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 focus:ring-2 focus:ring-yellow-400 focus:ring-offset-2 transition-colors flex items-center gap-2 text-sm"
+            title={`${duplicatesCount} part mark(s) used by more than one row`}
+          >
+            <Copy className="h-4 w-4" />
+            {`Duplicates (${duplicatesCount})`}
+          </Link>
+
           <button
             onClick={handleExport}
             disabled={exportMutation.isPending}
@@ -121,7 +289,7 @@ export const HomePage: React.FC = () => {
           <div className="relative">
             <input
               type="text"
-              placeholder="Search by PartMark, AssemblyMark, or Material..."
+              placeholder="Search by PartMark, AssemblyMark, or Material, or filter with material:S355 thickness>=10 assembly:A12*"
               value={searchTerm}
               onChange={(e) => handleSearch(e.target.value)}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -134,17 +302,88 @@ export const HomePage: React.FC = () => {
               )}
             </div>
           </div>
+          {typedConditions.length > 0 && (
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+              <span className="text-gray-500">Filtering by</span>
+              {typedConditions.map((condition, index) => (
+                <span
+                  key={index}
+                  className="inline-flex px-2 py-1 font-semibold rounded-full bg-blue-100 text-blue-800"
+                >
+                  {describeCondition(condition)}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
 
-        {/* Export Buttons */}
+        {batchId && (
+          <div className="mb-4 p-3 rounded-lg bg-blue-50 border border-blue-200 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-sm text-blue-800">
+              <History className="h-4 w-4" />
+              <span>
+                Showing rows from{" "}
+                <span className="font-medium">
+                  {batch ? batch.source_filename : `upload #${batchId}`}
+                </span>
+                {batch &&
+                  `, uploaded ${new Date(batch.uploaded_at).toLocaleString()}${
+                    batch.uploaded_by_name
+                      ? ` by ${batch.uploaded_by_name}`
+                      : ""
+                  }`}
+              </span>
+            </div>
+            <div className="flex items-center gap-3 text-sm">
+              <Link
+                to="/uploads"
+                className="text-blue-600 hover:text-blue-500 underline"
+              >
+                All uploads
+              </Link>
+              <button
+                onClick={handleClearBatch}
+                className="text-gray-600 hover:text-gray-900 flex items-center gap-1"
+              >
+                <X className="h-3 w-3" />
+                Show all rows
+              </button>
+            </div>
+          </div>
+        )}
+
+        <SavedViewsBar
+          currentState={getViewState(gridState, columnLayout.hidden)}
+          onApply={handleApplyView}
+        />
 
         <DataGrid
           data={data}
           loading={isLoading}
           onUpdateRow={handleUpdateRow}
           currentPage={currentPage}
-          totalPages={Math.ceil(total / 100)}
-          onPageChange={setCurrentPage}
+          totalPages={Math.ceil(total / pageSize)}
+          onPageChange={handlePageChange}
+          mode={gridState.mode}
+          onModeChange={handleModeChange}
+          pageSize={pageSize}
+          onPageSizeChange={handlePageSizeChange}
+          totalRows={total}
+          hasMore={infiniteQuery.hasNextPage}
+          isLoadingMore={infiniteQuery.isFetchingNextPage}
+          loadMoreFailed={infiniteQuery.isFetchNextPageError}
+          onLoadMore={() => infiniteQuery.fetchNextPage()}
+          resetScrollKey={JSON.stringify(dataQuery)}
+          rowFilter={rowFilter}
+          columnLayout={columnLayout}
+          onColumnLayoutChange={updateColumnLayout}
+          sort={sort}
+          onSortChange={handleSortChange}
+          columnFilters={columnFilters}
+          onColumnFiltersChange={handleColumnFiltersChange}
+          isFiltered={
+            !!searchQuery.text || filters.length > 0 || batchId !== undefined
+          }
           isUpdating={updateRowMutation.isPending}
         />
       </div>
@@ -0,0 +1,317 @@
+import React, { useState } from "react";
+import {
+  useMappingProfiles,
+  useUpdateMappingProfile,
+  useDeleteMappingProfile,
+} from "../hooks/useMappingProfiles";
+import { MappingProfile } from "../services/api";
+import { REQUIRED_HEADERS, OPTIONAL_HEADERS } from "../utils/headerValidation";
+
+interface ProfileForm {
+  name: string;
+  source_system: string;
+  mapping: Record<string, string | null>;
+}
+
+export const MappingProfilesPage: React.FC = () => {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [editingProfile, setEditingProfile] = useState<MappingProfile | null>(
+    null
+  );
+  const [editForm, setEditForm] = useState<ProfileForm>({
+    name: "",
+    source_system: "",
+    mapping: {},
+  });
+
+  const { data: profilesData, isLoading } = useMappingProfiles();
+  const updateProfileMutation = useUpdateMappingProfile();
+  const deleteProfileMutation = useDeleteMappingProfile();
+
+  const profiles = (profilesData?.data || []).filter((profile) => {
+    const term = searchTerm.trim().toLowerCase();
+    return (
+      !term ||
+      profile.name.toLowerCase().includes(term) ||
+      (profile.source_system || "").toLowerCase().includes(term)
+    );
+  });
+
+  const startEdit = (profile: MappingProfile) => {
+    setEditingProfile(profile);
+    setEditForm({
+      name: profile.name,
+      source_system: profile.source_system || "",
+      mapping: { ...profile.mapping },
+    });
+  };
+
+  const handleUpdateProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingProfile) {
+      await updateProfileMutation.mutateAsync({
+        id: editingProfile.id,
+        data: {
+          name: editForm.name.trim(),
+          source_system: editForm.source_system.trim(),
+          mapping: editForm.mapping,
+        },
+      });
+      setEditingProfile(null);
+    }
+  };
+
+  const handleDeleteProfile = async (profile: MappingProfile) => {
+    if (
+      window.confirm(
+        `Are you sure you want to delete the mapping profile "${profile.name}"?`
+      )
+    ) {
+      await deleteProfileMutation.mutateAsync(profile.id);
+    }
+  };
+
+  const countMappedColumns = (mapping: Record<string, string | null>) =>
+    Object.values(mapping).filter(Boolean).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h1 className="text-2xl font-semibold text-gray-900">
+              Mapping Profiles
+            </h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Saved header mappings, applied automatically to uploads with
+              matching column headers
+            </p>
+          </div>
+
+          <div className="p-6">
+            {/* Search */}
+            <div className="mb-6">
+              <input
+                type="text"
+                placeholder="Search by name or source system..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            {/* Edit Profile Form */}
+            {editingProfile && (
+              <div className="mb-6 p-4 bg-blue-50 rounded-lg">
+                <h3 className="text-lg font-medium mb-4">
+                  Edit Profile: {editingProfile.name}
+                </h3>
+                <form onSubmit={handleUpdateProfile} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Name
+                      </label>
+                      <input
+                        type="text"
+                        required
+                        value={editForm.name}
+                        onChange={(e) =>
+                          setEditForm({ ...editForm, name: e.target.value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Source System
+                      </label>
+                      <input
+                        type="text"
+                        value={editForm.source_system}
+                        onChange={(e) =>
+                          setEditForm({
+                            ...editForm,
+                            source_system: e.target.value,
+                          })
+                        }
+                        placeholder="e.g. Tekla, SDS/2, Advance Steel"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="overflow-x-auto bg-white rounded border border-gray-200">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Column in file
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Maps to
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {Object.entries(editForm.mapping).map(
+                          ([source, target]) => (
+                            <tr key={source}>
+                              <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                                {source}
+                              </td>
+                              <td className="px-4 py-2 whitespace-nowrap text-sm">
+                                <select
+                                  value={target || ""}
+                                  onChange={(e) =>
+                                    setEditForm({
+                                      ...editForm,
+                                      mapping: {
+                                        ...editForm.mapping,
+                                        [source]: e.target.value || null,
+                                      },
+                                    })
+                                  }
+                                  className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                >
+                                  <option value="">Ignore column</option>
+                                  <optgroup label="Required">
+                                    {REQUIRED_HEADERS.map((header) => (
+                                      <option key={header} value={header}>
+                                        {header}
+                                      </option>
+                                    ))}
+                                  </optgroup>
+                                  <optgroup label="Optional">
+                                    {OPTIONAL_HEADERS.map((header) => (
+                                      <option key={header} value={header}>
+                                        {header}
+                                      </option>
+                                    ))}
+                                  </optgroup>
+                                </select>
+                              </td>
+                            </tr>
+                          )
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      type="submit"
+                      disabled={updateProfileMutation.isPending}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {updateProfileMutation.isPending
+                        ? "Updating..."
+                        : "Update Profile"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingProfile(null)}
+                      className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              </div>
+            )}
+
+            {/* Profiles Table */}
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                <span className="ml-3 text-gray-600">
+                  Loading mapping profiles...
+                </span>
+              </div>
+            ) : profiles.length === 0 ? (
+              <div className="text-center py-8">
+                <div className="text-gray-500">No mapping profiles found</div>
+                <div className="text-sm text-gray-400 mt-1">
+                  Profiles are created from the column mapping step when
+                  uploading a file
+                </div>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Name
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Source System
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Columns
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Updated
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {profiles.map((profile) => (
+                      <tr key={profile.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {profile.name}
+                          {profile.created_by && (
+                            <div className="text-xs font-normal text-gray-500">
+                              by {profile.created_by}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {profile.source_system || "-"}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900 max-w-xs">
+                          <div
+                            className="truncate"
+                            title={profile.header_signature}
+                          >
+                            {countMappedColumns(profile.mapping)} of{" "}
+                            {Object.keys(profile.mapping).length} mapped
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {new Date(profile.updated_at).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          <div className="flex space-x-2">
+                            <button
+                              type="button"
+                              onClick={() => startEdit(profile)}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteProfile(profile)}
+                              disabled={deleteProfileMutation.isPending}
+                              className="text-red-600 hover:text-red-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  useUploadBatches,
+  useDownloadBatchErrorFile,
+  useRollbackBatch,
+} from "../hooks/useUploadBatches";
+import { useDebounce } from "../hooks/useDebounce";
+import { UploadBatch } from "../services/api";
+
+export const UploadsPage: React.FC = () => {
+  const [currentPage, setCurrentPage] = useState(1);
+  const [searchTerm, setSearchTerm] = useState("");
+  const debouncedSearchTerm = useDebounce(searchTerm, 300);
+
+  const { data, isLoading, error } = useUploadBatches(
+    currentPage,
+    50,
+    debouncedSearchTerm
+  );
+  const downloadErrorMutation = useDownloadBatchErrorFile();
+  const rollbackMutation = useRollbackBatch();
+
+  const formatTimestamp = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString();
+  };
+
+  const handleSearch = (term: string) => {
+    setSearchTerm(term);
+    setCurrentPage(1);
+  };
+
+  const handleRollback = (batch: UploadBatch) => {
+    if (
+      window.confirm(
+        `Roll back "${batch.source_filename}"? All ${batch.valid_rows} row(s) imported from this file will be deleted.`
+      )
+    ) {
+      rollbackMutation.mutate(batch);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h1 className="text-2xl font-semibold text-gray-900">Uploads</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Every imported file with its results; view or roll back the rows
+              of an upload
+            </p>
+          </div>
+
+          <div className="p-6">
+            {/* Filters */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Filter by File Name
+              </label>
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => handleSearch(e.target.value)}
+                placeholder="Enter file name"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            {/* Content */}
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                <span className="ml-3 text-gray-600">Loading uploads...</span>
+              </div>
+            ) : error ? (
+              <div className="text-center py-8">
+                <div className="text-red-600 mb-2">Error loading uploads</div>
+                <div className="text-sm text-gray-500">
+                  {error instanceof Error ? error.message : "Unknown error"}
+                </div>
+              </div>
+            ) : !data?.data || data.data.length === 0 ? (
+              <div className="text-center py-8">
+                <div className="text-gray-500">No uploads found</div>
+              </div>
+            ) : (
+              <>
+                {/* Table */}
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          File
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Uploaded By
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Uploaded At
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Valid Rows
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Invalid Rows
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {data.data.map((batch) => (
+                        <tr key={batch.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 text-sm font-medium text-gray-900 max-w-xs">
+                            <div
+                              className="truncate"
+                              title={batch.source_filename}
+                            >
+                              {batch.source_filename}
+                            </div>
+                            {batch.rolled_back_at && (
+                              <span
+                                className="inline-flex mt-1 px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-800"
+                                title={`Rolled back ${formatTimestamp(
+                                  batch.rolled_back_at
+                                )}${
+                                  batch.rolled_back_by_name
+                                    ? ` by ${batch.rolled_back_by_name}`
+                                    : ""
+                                }`}
+                              >
+                                Rolled back
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {batch.uploaded_by_name || "-"}
+                            {batch.uploaded_by_email && (
+                              <>
+                                <br />
+                                {batch.uploaded_by_email}
+                              </>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatTimestamp(batch.uploaded_at)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-green-700">
+                            {batch.valid_rows}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-red-700">
+                            {batch.invalid_rows}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <div className="flex space-x-2">
+                              {!batch.rolled_back_at && (
+                                <Link
+                                  to={`/?batch=${batch.id}`}
+                                  className="text-blue-600 hover:text-blue-900"
+                                >
+                                  View rows
+                                </Link>
+                              )}
+                              {batch.has_error_file && (
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    downloadErrorMutation.mutate(batch)
+                                  }
+                                  disabled={downloadErrorMutation.isPending}
+                                  className="text-blue-600 hover:text-blue-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                  Error file
+                                </button>
+                              )}
+                              {!batch.rolled_back_at && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleRollback(batch)}
+                                  disabled={rollbackMutation.isPending}
+                                  className="text-red-600 hover:text-red-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                  Roll back
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Pagination */}
+                {data.pagination.totalPages > 1 && (
+                  <div className="mt-6 flex items-center justify-between">
+                    <div className="text-sm text-gray-700">
+                      Showing page {data.pagination.page} of{" "}
+                      {data.pagination.totalPages} ({data.pagination.total}{" "}
+                      total uploads)
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setCurrentPage(currentPage - 1)}
+                        disabled={currentPage === 1}
+                        className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+                      >
+                        Previous
+                      </button>
+                      <button
+                        onClick={() => setCurrentPage(currentPage + 1)}
+                        disabled={currentPage === data.pagination.totalPages}
+                        className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+                      >
+                        Next
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -5,6 +5,9 @@ import { PublicRoute } from "./PublicRoute";
 import { HomePage } from "../pages/HomePage";
 import { AuditPage } from "../pages/AuditPage";
 import { UsersPage } from "../pages/UsersPage";
+import { MappingProfilesPage } from "../pages/MappingProfilesPage";
+import { UploadsPage } from "../pages/UploadsPage";
+import { DuplicatesPage } from "../pages/DuplicatesPage";
 import { LoginPage } from "../pages/LoginPage";
 import { ForgotPasswordPage } from "../pages/ForgotPasswordPage";
 import { ResetPasswordPage } from "../pages/ResetPasswordPage";
@@ -60,6 +63,26 @@ export const AppRoutes: React.FC = () => {
           </PrivateRoute>
         }
       />
+      <Route
+        path="/uploads"
+        element={
+          <PrivateRoute>
+            <Layout>
+              <UploadsPage />
+            </Layout>
+          </PrivateRoute>
+        }
+      />
+      <Route
+        path="/duplicates"
+        element={
+          <PrivateRoute>
+            <Layout>
+              <DuplicatesPage />
+            </Layout>
+          </PrivateRoute>
+        }
+      />
       <Route
         path="/users"
         element={
@@ -70,6 +93,16 @@ export const AppRoutes: React.FC = () => {
           </PrivateRoute>
         }
       />
+      <Route
+        path="/mapping-profiles"
+        element={
+          <PrivateRoute>
+            <Layout>
+              <MappingProfilesPage />
+            </Layout>
+          </PrivateRoute>
+        }
+      />
 
       {/* Catch all route - redirect to home */}
       <Route path="*" element={<Navigate to="/" replace />} />
@@ -0,0 +1,222 @@
+import axios, { AxiosResponse, CanceledError } from "axios";
+import { csvApi } from "./csv.service";
+import { UploadOptions, UploadProgress, UploadSession } from "./index";
+
+// Files larger than this are sent in chunks so a dropped connection only
+// loses the current chunk
+export const CHUNKED_UPLOAD_THRESHOLD = 2 * 1024 * 1024;
+export const CHUNK_SIZE = 1024 * 1024;
+
+const MAX_RETRIES = 5;
+const RETRY_DELAY = 1000;
+
+// Upload ids of unfinished uploads, keyed by file and upload options, so
+// uploading the same file with the same options again resumes where it stopped
+const SESSIONS_STORAGE_KEY = "csvUploadSessions";
+
+interface ChunkedUploadConfig {
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+// Short string hash (FNV-1a), keeping the stored keys small
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// The options are sent when the upload starts, so a session started with a
+// different dialect, mapping or import mode is not resumed
+const getSessionKey = (file: File, options: UploadOptions) =>
+  `${file.name}:${file.size}:${file.lastModified}:${hashText(
+    JSON.stringify(options)
+  )}`;
+
+const loadSessions = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSIONS_STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const saveSession = (sessionKey: string, uploadId: string | null) => {
+  const sessions = loadSessions();
+  if (uploadId) {
+    sessions[sessionKey] = uploadId;
+  } else {
+    delete sessions[sessionKey];
+  }
+  localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+};
+
+// Dropped connections, timeouts and server errors are worth retrying
+const isRetryable = (error: unknown) =>
+  axios.isAxiosError(error) &&
+  !axios.isCancel(error) &&
+  (!error.response ||
+    error.response.status >= 500 ||
+    error.response.status === 408 ||
+    error.response.status === 429);
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new CanceledError());
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * Sends a file to an upload session in chunks and then previews or completes
+ * the import. Failed chunks are retried with backoff, resuming from the offset
+ * the server reports, and a session interrupted for good is resumed the next
+ * time the same file is sent with the same options. A previewed session is
+ * kept, so completing the import afterwards does not send the file again.
+ * @param file - The file to upload
+ * @param options - Dialect, column mapping and import mode sent when the
+ * upload starts
+ * @param config - Abort signal and progress callback
+ * @param request - Request run once every chunk is stored
+ * @returns Response of the preview or complete request
+ */
+const sendFileInChunks = async (
+  file: File,
+  options: UploadOptions,
+  config: ChunkedUploadConfig,
+  request: "preview" | "complete"
+): Promise<AxiosResponse> => {
+  const { signal, onProgress } = config;
+  const sessionKey = getSessionKey(file, options);
+  let uploadId: string | null = loadSessions()[sessionKey] || null;
+  let offset = 0;
+
+  if (uploadId) {
+    try {
+      const { data } = await csvApi.getUploadStatus(uploadId, { signal });
+      offset = (data as UploadSession).receivedBytes;
+    } catch (error) {
+      if (axios.isCancel(error)) throw error;
+      // The session expired on the server; start over
+      uploadId = null;
+    }
+  }
+
+  if (!uploadId) {
+    const { data } = await csvApi.startUpload(file, options, { signal });
+    uploadId = (data as UploadSession).uploadId;
+    saveSession(sessionKey, uploadId);
+  }
+
+  const sessionId = uploadId;
+  onProgress?.({ loaded: offset, total: file.size });
+
+  try {
+    let attempt = 0;
+    while (offset < file.size) {
+      const chunkOffset = offset;
+      try {
+        const { data } = await csvApi.uploadChunk(
+          sessionId,
+          chunkOffset,
+          file.slice(chunkOffset, chunkOffset + CHUNK_SIZE),
+          {
+            signal,
+            onUploadProgress: (event) =>
+              onProgress?.({
+                loaded: chunkOffset + event.loaded,
+                total: file.size,
+              }),
+          }
+        );
+        offset = (data as UploadSession).receivedBytes;
+        attempt = 0;
+        onProgress?.({ loaded: offset, total: file.size });
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= MAX_RETRIES) throw error;
+        attempt++;
+        await wait(RETRY_DELAY * 2 ** (attempt - 1), signal);
+        // The chunk may have been stored before the connection dropped
+        try {
+          const { data } = await csvApi.getUploadStatus(sessionId, { signal });
+          offset = (data as UploadSession).receivedBytes;
+        } catch (statusError) {
+          if (axios.isCancel(statusError)) throw statusError;
+        }
+      }
+    }
+
+    if (request === "preview") {
+      return await csvApi.previewUpload(sessionId, { signal });
+    }
+    const response = await csvApi.completeUpload(sessionId, { signal });
+    saveSession(sessionKey, null);
+    return response;
+  } catch (error) {
+    // A cancelled upload is discarded; other failures keep the session so the
+    // upload can be resumed
+    if (axios.isCancel(error)) {
+      saveSession(sessionKey, null);
+      csvApi.abortUpload(sessionId).catch(() => undefined);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Uploads a file in chunks and imports it
+ * @param file - The file to upload
+ * @param options - Dialect, column mapping and import mode
+ * @param config - Abort signal and progress callback
+ * @returns Response of the complete request (an UploadResponse)
+ */
+export const uploadFileInChunks = (
+  file: File,
+  options: UploadOptions = {},
+  config: ChunkedUploadConfig = {}
+) => sendFileInChunks(file, options, config, "complete");
+
+/**
+ * Uploads a file in chunks and previews its import without writing anything;
+ * uploading the file with the same options then imports the previewed session
+ * and discardChunkedUpload drops it
+ * @param file - The file to upload
+ * @param options - Dialect, column mapping and import mode
+ * @param config - Abort signal and progress callback
+ * @returns Response of the preview request (an ImportPreview)
+ */
+export const previewFileInChunks = (
+  file: File,
+  options: UploadOptions = {},
+  config: ChunkedUploadConfig = {}
+) => sendFileInChunks(file, options, config, "preview");
+
+/**
+ * Discards the unfinished upload session of a file, e.g. a previewed import
+ * that was not confirmed, on the server and in the stored sessions
+ * @param file - The uploaded file
+ * @param options - Dialect, column mapping and import mode it was sent with
+ */
+export const discardChunkedUpload = (
+  file: File,
+  options: UploadOptions = {}
+) => {
+  const sessionKey = getSessionKey(file, options);
+  const uploadId = loadSessions()[sessionKey];
+  if (!uploadId) return;
+  saveSession(sessionKey, null);
+  csvApi.abortUpload(uploadId).catch(() => undefined);
+};
@@ -1,34 +1,176 @@
 import { api } from "../api";
-import { CSVRow } from "./index";
+import {
+  CSVRow,
+  FilterCondition,
+  MappingProfileRequest,
+  MatchingRowsUpdate,
+  MergeDuplicatesRequest,
+  RowSelection,
+  RowUpdate,
+  SavedViewRequest,
+  SortColumn,
+  UploadOptions,
+  UploadRequestConfig,
+} from "./index";
+import { formatSortParam } from "../../utils/gridSort";
+import { ColumnLayout } from "../../utils/gridColumns";
+
+// Uploads can take much longer than the default API timeout on slow
+// connections, and the server parses the whole file before responding
+const UPLOAD_TIMEOUT = 5 * 60 * 1000;
+
+// Per-chunk timeout for chunked uploads
+const CHUNK_TIMEOUT = 60 * 1000;
+
+// Form fields describing how the server should read an uploaded file
+const getUploadFields = (options: UploadOptions): Record<string, string> => {
+  const { dialect, mapping, importMode } = options;
+  const fields: Record<string, string> = {};
+  if (dialect) {
+    fields.delimiter = dialect.delimiter;
+    fields.encoding = dialect.encoding;
+  }
+  if (mapping) {
+    fields.columnMapping = JSON.stringify(mapping);
+  }
+  if (importMode) {
+    fields.importMode = importMode;
+  }
+  return fields;
+};
+
+// Multipart body shared by the single upload and the dry-run validation
+const createUploadFormData = (file: File, options: UploadOptions) => {
+  const formData = new FormData();
+  formData.append("csvFile", file);
+  Object.entries(getUploadFields(options)).forEach(([name, value]) => {
+    formData.append(name, value);
+  });
+  return formData;
+};
 
 // CSV API endpoints
 export const csvApi = {
-  // Get paginated data
-  getData: (page: number = 1, limit: number = 100, search: string = "") => {
+  // Get paginated data, optionally only the rows of one upload batch or
+  // matching the filter conditions, sorted by the given columns in order
+  getData: (
+    page: number = 1,
+    limit: number = 100,
+    search: string = "",
+    batchId?: number,
+    sort: SortColumn[] = [],
+    filters: FilterCondition[] = []
+  ) => {
     const params = new URLSearchParams({
       page: page.toString(),
       limit: limit.toString(),
       search: search,
     });
+    if (batchId) params.append("batchId", batchId.toString());
+    if (sort.length > 0) params.append("sort", formatSortParam(sort));
+    if (filters.length > 0) params.append("filters", JSON.stringify(filters));
     return api.get(`/csv/data?${params}`);
   },
 
   // Upload CSV file
-  uploadFile: (file: File) => {
-    const formData = new FormData();
-    formData.append("csvFile", file);
+  uploadFile: (
+    file: File,
+    options: UploadOptions = {},
+    config: UploadRequestConfig = {}
+  ) => {
+    const formData = createUploadFormData(file, options);
     return api.post("/csv/upload", formData, {
+      ...config,
+      timeout: UPLOAD_TIMEOUT,
+      headers: {
+        "Content-Type": "multipart/form-data",
+      },
+    });
+  },
+
+  // Runs the server's row validation on the file without importing it
+  validateFile: (file: File, options: UploadOptions = {}) => {
+    const formData = createUploadFormData(file, options);
+    return api.post("/csv/validate", formData, {
+      timeout: UPLOAD_TIMEOUT,
       headers: {
         "Content-Type": "multipart/form-data",
       },
     });
   },
 
+  // Chunked upload endpoints
+  startUpload: (
+    file: File,
+    options: UploadOptions = {},
+    config: UploadRequestConfig = {}
+  ) => {
+    return api.post(
+      "/csv/uploads",
+      {
+        fileName: file.name,
+        fileSize: file.size,
+        ...getUploadFields(options),
+      },
+      config
+    );
+  },
+
+  getUploadStatus: (uploadId: string, config: UploadRequestConfig = {}) => {
+    return api.get(`/csv/uploads/${uploadId}`, config);
+  },
+
+  uploadChunk: (
+    uploadId: string,
+    offset: number,
+    chunk: Blob,
+    config: UploadRequestConfig = {}
+  ) => {
+    return api.put(`/csv/uploads/${uploadId}/chunks`, chunk, {
+      ...config,
+      params: { offset },
+      timeout: CHUNK_TIMEOUT,
+      headers: {
+        "Content-Type": "application/octet-stream",
+      },
+    });
+  },
+
+  // Summarises what completing the upload would create, update and delete,
+  // without writing anything; the session stays open so it can be completed
+  // once the summary is confirmed
+  previewUpload: (uploadId: string, config: UploadRequestConfig = {}) => {
+    return api.post(`/csv/uploads/${uploadId}/preview`, null, {
+      ...config,
+      timeout: UPLOAD_TIMEOUT,
+    });
+  },
+
+  completeUpload: (uploadId: string, config: UploadRequestConfig = {}) => {
+    return api.post(`/csv/uploads/${uploadId}/complete`, null, {
+      ...config,
+      timeout: UPLOAD_TIMEOUT,
+    });
+  },
+
+  abortUpload: (uploadId: string) => {
+    return api.delete(`/csv/uploads/${uploadId}`);
+  },
+
   // Update row
   updateRow: (id: number, data: Partial<CSVRow>) => {
     return api.put(`/csv/data/${id}`, data);
   },
 
+  bulkUpdateRows: (updates: RowUpdate[]) => {
+    return api.put("/csv/data", { updates });
+  },
+
+  // Applies bulk edit operations to every row matching a filter
+  bulkUpdateMatchingRows: (data: MatchingRowsUpdate) => {
+    return api.put("/csv/data", data);
+  },
+
   // Export data
   exportData: () => {
     return api.get("/csv/export", {
@@ -43,10 +185,10 @@ export const csvApi = {
     });
   },
 
-  // Delete multiple rows
-  deleteRows: (ids: number[]) => {
+  // Delete multiple rows, by id or every row matching a filter
+  deleteRows: (selection: RowSelection) => {
     return api.delete("/csv/data", {
-      data: { ids },
+      data: selection,
     });
   },
 
@@ -54,6 +196,116 @@ export const csvApi = {
     return api.delete(`/csv/${id}`);
   },
 
+  // Brings back deleted rows, e.g. when a delete is undone
+  restoreRows: (ids: number[]) => {
+    return api.post("/csv/data/restore", { ids });
+  },
+
+  // Header mapping profile endpoints
+  getMappingProfiles: () => {
+    return api.get("/csv/mapping-profiles");
+  },
+
+  createMappingProfile: (data: MappingProfileRequest) => {
+    return api.post("/csv/mapping-profiles", data);
+  },
+
+  updateMappingProfile: (id: number, data: Partial<MappingProfileRequest>) => {
+    return api.put(`/csv/mapping-profiles/${id}`, data);
+  },
+
+  deleteMappingProfile: (id: number) => {
+    return api.delete(`/csv/mapping-profiles/${id}`);
+  },
+
+  // Saved grid view endpoints
+  getSavedViews: () => {
+    return api.get("/csv/views");
+  },
+
+  createSavedView: (data: SavedViewRequest) => {
+    return api.post("/csv/views", data);
+  },
+
+  updateSavedView: (id: number, data: Partial<SavedViewRequest>) => {
+    return api.put(`/csv/views/${id}`, data);
+  },
+
+  deleteSavedView: (id: number) => {
+    return api.delete(`/csv/views/${id}`);
+  },
+
+  // Data grid column layout endpoints
+  getGridLayout: () => {
+    return api.get("/csv/grid-layout");
+  },
+
+  saveGridLayout: (layout: ColumnLayout) => {
+    return api.put("/csv/grid-layout", { layout });
+  },
+
+  // Upload batch endpoints
+  getUploadBatches: (
+    page: number = 1,
+    limit: number = 50,
+    search: string = ""
+  ) => {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      limit: limit.toString(),
+    });
+    if (search) params.append("search", search);
+    return api.get(`/csv/batches?${params}`);
+  },
+
+  getUploadBatch: (id: number) => {
+    return api.get(`/csv/batches/${id}`);
+  },
+
+  downloadBatchErrorFile: (id: number) => {
+    return api.get(`/csv/batches/${id}/error`, {
+      responseType: "blob",
+    });
+  },
+
+  // Deletes every row imported by the batch
+  rollbackBatch: (id: number) => {
+    return api.delete(`/csv/batches/${id}`);
+  },
+
+  // Duplicate part endpoints
+  getDuplicates: (
+    page: number = 1,
+    limit: number = 20,
+    search: string = "",
+    includeIntentional: boolean = false
+  ) => {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      limit: limit.toString(),
+    });
+    if (search) params.append("search", search);
+    if (includeIntentional) params.append("includeIntentional", "true");
+    return api.get(`/csv/duplicates?${params}`);
+  },
+
+  // Keeps one row, adds the others' quantities to it and deletes them
+  mergeDuplicates: (data: MergeDuplicatesRequest) => {
+    return api.post("/csv/duplicates/merge", data);
+  },
+
+  setDuplicateIntentional: (partMark: string, intentional: boolean) => {
+    return api.put("/csv/duplicates/intentional", {
+      part_mark: partMark,
+      intentional,
+    });
+  },
+
+  // Stored rows with the given part marks, used to flag incoming duplicates
+  checkDuplicates: (partMarks: string[]) => {
+    return api.post("/csv/duplicates/check", { part_marks: partMarks });
+  },
+
   // Audit log endpoints
   getAuditLogs: (
     page: number = 1,
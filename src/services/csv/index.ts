@@ -1,3 +1,10 @@
+import { AxiosRequestConfig } from "axios";
+import { CSVDialect } from "../../utils/csvDialect";
+import { ColumnMapping } from "../../utils/headerValidation";
+import { ColumnFilters } from "../../utils/gridFilters";
+import { ColumnLayout, GridColumnId } from "../../utils/gridColumns";
+import { BulkEditOperation } from "../../utils/bulkEdit";
+
 // CSV Data Types
 export interface CSVRow {
   id: number;
@@ -11,10 +18,106 @@ export interface CSVRow {
   height?: number;
   weight?: number;
   notes?: string;
+  // Upload batch the row was imported in
+  batch_id?: number;
   created_at: string;
   updated_at: string;
 }
 
+// Grid sort, applied on the server in the given order of columns
+export type SortDirection = "asc" | "desc";
+
+export interface SortColumn {
+  field: keyof CSVRow;
+  direction: SortDirection;
+}
+
+// Grid filter sent to the server: "like" matches with * as a wildcard,
+// "contains" matches a substring and "in" any of the listed values. Text is
+// compared case-insensitively; dates are YYYY-MM-DD and compare by day
+export type FilterOperator =
+  | "eq"
+  | "like"
+  | "contains"
+  | "in"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte";
+
+export interface FilterCondition {
+  field: keyof CSVRow;
+  operator: FilterOperator;
+  // A list for "in", a single value otherwise
+  value: string | string[];
+}
+
+// Rows shown in the data grid; pages of pageSize rows are fetched
+export interface DataQuery {
+  search: string;
+  batchId?: number;
+  sort: SortColumn[];
+  filters: FilterCondition[];
+  pageSize: number;
+}
+
+// Rows matching the grid's search and filters, whatever page they are on
+export interface RowFilter {
+  search: string;
+  batchId?: number;
+  filters: FilterCondition[];
+}
+
+// Rows a bulk action applies to: the listed ids, or every row matching the
+// filter except the excluded ids, so the server need not be sent every id
+export type RowSelection =
+  | { ids: number[] }
+  | { filter: RowFilter; excludeIds: number[] };
+
+// Changed fields of several rows, saved in one request with one audit log
+// entry per row
+export interface RowUpdate {
+  id: number;
+  data: Partial<CSVRow>;
+}
+
+// Row update with the values the changed fields had before, kept so the
+// change can be undone
+export interface RowChange extends RowUpdate {
+  previous: Partial<CSVRow>;
+}
+
+export interface BulkUpdateResponse {
+  success: boolean;
+  updatedRows: number;
+  // Rows left unchanged because the new values break a column rule, when the
+  // operations are applied on the server
+  skippedRows?: number;
+  // Rows the server changed, with the new and previous values of the changed
+  // fields, so applying operations to matching rows can be undone
+  changedRows?: RowChange[];
+}
+
+// Bulk edit operations applied on the server to every matching row
+export interface MatchingRowsUpdate {
+  filter: RowFilter;
+  excludeIds: number[];
+  operations: BulkEditOperation[];
+}
+
+// Deleted rows are kept by the server (soft delete) until restored
+export interface BulkDeleteResponse {
+  success: boolean;
+  deletedRows: number;
+  // Ids of the deleted rows, so deleting by filter can be undone
+  deletedIds?: number[];
+}
+
+export interface RestoreRowsResponse {
+  success: boolean;
+  restoredRows: number;
+}
+
 export interface ApiResponse<T> {
   data: T;
   total: number;
@@ -22,19 +125,231 @@ export interface ApiResponse<T> {
   limit: number;
 }
 
+// How uploaded rows are combined with the stored rows: append adds every
+// row, upsert updates rows with the same PartMark + AssemblyMark and adds the
+// rest, replace deletes all stored rows first
+export type ImportMode = "append" | "upsert" | "replace";
+
+export interface UploadOptions {
+  dialect?: CSVDialect;
+  mapping?: ColumnMapping | null;
+  importMode?: ImportMode;
+}
+
 export interface UploadResponse {
   success: boolean;
   validRows: number;
   invalidRows: number;
   hasErrorFile: boolean;
+  // Batch created for the uploaded file
+  batchId?: number;
   error?: string;
 }
 
+// Changes an import would make, returned before anything is written
+export interface ImportFieldChange {
+  field: keyof CSVRow;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface ImportRowUpdate {
+  row_id: number;
+  line_no: number;
+  part_mark: string;
+  assembly_mark: string;
+  changes: ImportFieldChange[];
+}
+
+export interface ImportPreview {
+  success: boolean;
+  importMode: ImportMode;
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  invalidRows: number;
+  // Updated rows with their field changes (may be capped by the server)
+  updates: ImportRowUpdate[];
+  error?: string;
+}
+
+// Request options for tracking and cancelling an upload
+export type UploadRequestConfig = Pick<
+  AxiosRequestConfig,
+  "signal" | "onUploadProgress"
+>;
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+// Chunked (resumable) upload session
+export interface UploadSession {
+  uploadId: string;
+  // Bytes stored by the server so far; the next chunk starts here
+  receivedBytes: number;
+}
+
+// Header mapping profiles
+export interface MappingProfile {
+  id: number;
+  name: string;
+  source_system?: string;
+  // Sorted, lower-cased source headers the profile was created from
+  header_signature: string;
+  // Target header keyed by lower-cased source header (null = ignore column)
+  mapping: Record<string, string | null>;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MappingProfileRequest {
+  name: string;
+  source_system?: string;
+  header_signature: string;
+  mapping: Record<string, string | null>;
+}
+
+export interface MappingProfilesResponse {
+  success: boolean;
+  data: MappingProfile[];
+}
+
+// Saved grid views: named search, sort, filters and page size, private to
+// the user who saved them unless shared
+export interface SavedViewState {
+  search: string;
+  sort: SortColumn[];
+  columnFilters: ColumnFilters;
+  pageSize: number;
+  hiddenColumns: GridColumnId[];
+}
+
+export interface SavedView {
+  id: number;
+  name: string;
+  state: SavedViewState;
+  // Visible to all users, but only editable by its owner
+  is_shared: boolean;
+  user_id: number;
+  user_name?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedViewRequest {
+  name: string;
+  state: SavedViewState;
+  is_shared: boolean;
+}
+
+export interface SavedViewResponse {
+  success: boolean;
+  data: SavedView;
+}
+
+export interface SavedViewsResponse {
+  success: boolean;
+  // The user's own views and the views shared by others
+  data: SavedView[];
+}
+
+// Data grid column layout, stored per user
+export interface GridLayoutResponse {
+  success: boolean;
+  // Null until the user first changes the layout
+  data: ColumnLayout | null;
+}
+
+// Upload batches: one per imported file
+export interface UploadBatch {
+  id: number;
+  source_filename: string;
+  uploaded_at: string;
+  uploaded_by_name?: string;
+  uploaded_by_email?: string;
+  valid_rows: number;
+  invalid_rows: number;
+  has_error_file: boolean;
+  // Set once the batch's rows have been deleted
+  rolled_back_at?: string | null;
+  rolled_back_by_name?: string | null;
+}
+
+export interface UploadBatchesResponse {
+  success: boolean;
+  data: UploadBatch[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export interface UploadBatchResponse {
+  success: boolean;
+  data: UploadBatch;
+}
+
+export interface RollbackBatchResponse {
+  success: boolean;
+  deletedRows: number;
+}
+
+// Rows sharing a part mark
+export interface DuplicateGroup {
+  part_mark: string;
+  rows: CSVRow[];
+  // Marked as intended, e.g. the same part used in several assemblies
+  is_intentional: boolean;
+}
+
+export interface DuplicateGroupsResponse {
+  success: boolean;
+  data: DuplicateGroup[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export interface MergeDuplicatesRequest {
+  // Row that is kept; the quantities of the merged rows are added to it
+  keepId: number;
+  mergeIds: number[];
+}
+
+export interface MergeDuplicatesResponse {
+  success: boolean;
+  data: CSVRow;
+  deletedRows: number;
+}
+
+export interface CheckDuplicatesResponse {
+  success: boolean;
+  // Stored rows with one of the given part marks, excluding intentional groups
+  data: CSVRow[];
+}
+
 export interface AuditLogEntry {
   id: number;
   timestamp: string;
   user: string;
-  action: "CREATE" | "UPDATE" | "DELETE" | "BULK_DELETE" | "CLEAR_ALL";
+  action:
+    | "CREATE"
+    | "UPDATE"
+    | "DELETE"
+    | "BULK_DELETE"
+    | "CLEAR_ALL"
+    | "ROLLBACK"
+    | "MERGE"
+    | "RESTORE";
   row_id?: number;
   diff?: string;
   created_at: string;
@@ -81,6 +396,21 @@ export interface InvalidRowData {
   notes?: string;
 }
 
+// Server-side dry-run validation of a file; nothing is written
+export type ValidationReportRow = Pick<
+  InvalidRowData,
+  "line_no" | "error_codes" | "error_messages" | "part_mark" | "assembly_mark"
+>;
+
+export interface ValidationReport {
+  success: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  errors: ValidationReportRow[];
+  error?: string;
+}
+
 export interface EditedRowData {
   row_id: number;
   source_filename: string;
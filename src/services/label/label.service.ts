@@ -1,4 +1,5 @@
 import { api } from "../api";
+import { RowSelection } from "../csv";
 
 // Label generation API endpoints
 export const labelApi = {
@@ -16,9 +17,10 @@ export const labelApi = {
     });
   },
 
-  // Generate bulk labels
-  generateBulkLabels: (ids: number[]) => {
-    return api.post("/labels/bulk", { ids });
+  // Generate labels for the selected rows, by id or every row matching a
+  // filter
+  generateBulkLabels: (selection: RowSelection) => {
+    return api.post("/labels/bulk", selection);
   },
 
   // Download ZPL file
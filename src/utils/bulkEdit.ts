@@ -0,0 +1,257 @@
+/**
+ * Bulk Edit Utilities
+ * Operations that set or transform a field across many rows, and the preview
+ * of what they change in each row before it is saved
+ */
+
+import { CSVRow } from "../services/api";
+import {
+  COLUMN_RULES,
+  validateColumnValue,
+  validateRowValues,
+} from "./columnRules";
+import { sanitizeCSVValue, validateCSVContent } from "./csvSafety";
+import { DataColumnId, NUMBER_FIELDS } from "./gridColumns";
+
+// "append" adds text to the end of the current value; "multiply" and "add"
+// change numbers, and the number in a text value such as "10mm" or "PL10"
+export type BulkEditAction = "set" | "append" | "multiply" | "add";
+
+export interface BulkEditOperation {
+  field: DataColumnId;
+  action: BulkEditAction;
+  value: string;
+}
+
+export interface BulkEditField {
+  field: DataColumnId;
+  label: string;
+  actions: BulkEditAction[];
+}
+
+// Fields that can be edited in bulk; part marks identify rows and are left
+// to cell editing
+export const BULK_EDIT_FIELDS: BulkEditField[] = [
+  { field: "material", label: "Material", actions: ["set"] },
+  { field: "thickness", label: "Thickness", actions: ["set", "add"] },
+  {
+    field: "quantity",
+    label: "Quantity",
+    actions: ["set", "multiply", "add"],
+  },
+  { field: "notes", label: "Notes", actions: ["append", "set"] },
+  { field: "assembly_mark", label: "Assembly Mark", actions: ["set"] },
+  { field: "length", label: "Length", actions: ["set", "multiply", "add"] },
+  { field: "width", label: "Width", actions: ["set", "multiply", "add"] },
+  { field: "height", label: "Height", actions: ["set", "multiply", "add"] },
+  { field: "weight", label: "Weight", actions: ["set", "multiply", "add"] },
+];
+
+export const BULK_EDIT_ACTION_LABELS: Record<BulkEditAction, string> = {
+  set: "Set to",
+  append: "Add to the end",
+  multiply: "Multiply by",
+  add: "Add",
+};
+
+export interface BulkEditFieldChange {
+  field: DataColumnId;
+  from: CSVRow[DataColumnId];
+  to: CSVRow[DataColumnId];
+}
+
+export interface BulkEditRowPreview {
+  row: CSVRow;
+  changes: BulkEditFieldChange[];
+  // Column rules the changed values break; such rows are not saved
+  errors: Partial<Record<keyof CSVRow, string>>;
+}
+
+// A number with optional text before or after it, e.g. "10mm" or "PL10"
+const NUMBER_IN_TEXT_PATTERN = /^(\D*?)([+-]?(?:\d+(?:\.\d*)?|\.\d+))(\D*)$/;
+
+/**
+ * Applies one operation to a value
+ * @param current - Current value of the field
+ * @param operation - Operation to apply
+ * @returns New value, or undefined when a number operation meets a value
+ * that is not a number (or text without exactly one number)
+ */
+const applyOperation = (
+  current: CSVRow[DataColumnId],
+  operation: BulkEditOperation
+): CSVRow[DataColumnId] => {
+  const { field, action, value } = operation;
+  const isNumberField = NUMBER_FIELDS.includes(field);
+
+  if (action === "set") {
+    const text = value.trim();
+    return isNumberField && text !== "" ? Number(text) : text;
+  }
+  if (action === "append") {
+    const text = current === null || current === undefined ? "" : current;
+    return text === "" ? value.trim() : `${text} ${value.trim()}`;
+  }
+
+  const match =
+    current === null || current === undefined
+      ? null
+      : NUMBER_IN_TEXT_PATTERN.exec(String(current).trim());
+  const operand = Number(value);
+  if (!match || !Number.isFinite(operand)) {
+    return undefined;
+  }
+  // Number fields hold plain numbers; text keeps its unit or prefix
+  const [, prefix, numberText, suffix] = match;
+  if (isNumberField && (prefix !== "" || suffix !== "")) {
+    return undefined;
+  }
+  const number = Number(numberText);
+  const result = action === "multiply" ? number * operand : number + operand;
+  // Quantities stay whole; other numbers drop floating point noise
+  const rounded =
+    field === "quantity"
+      ? Math.round(result)
+      : Math.round(result * 10000) / 10000;
+  return isNumberField ? rounded : `${prefix}${rounded}${suffix}`;
+};
+
+/**
+ * Checks that an operation can be applied, before any row is looked at
+ * @param operation - Operation to check
+ * @returns Error message, or null when the operation is complete
+ */
+export const validateBulkEditOperation = (
+  operation: BulkEditOperation
+): string | null => {
+  if (
+    (operation.action === "multiply" || operation.action === "add") &&
+    (operation.value.trim() === "" || !Number.isFinite(Number(operation.value)))
+  ) {
+    return "Enter a number";
+  }
+  if (operation.action === "append" && operation.value.trim() === "") {
+    return "Enter the text to add";
+  }
+  const rule = COLUMN_RULES.find((item) => item.field === operation.field);
+  if (rule?.required && operation.value.trim() === "") {
+    return `${rule.header} is required`;
+  }
+  // A set value, or text added to every row, must pass the column rule on
+  // its own
+  if (
+    rule &&
+    (operation.action === "set" || operation.action === "append") &&
+    operation.value.trim() !== ""
+  ) {
+    return validateColumnValue(rule, operation.value);
+  }
+  return null;
+};
+
+/**
+ * Lists formula and content warnings of the text an operation writes
+ * @param operation - Operation to check
+ * @returns Warnings, empty for number operations
+ */
+export const getBulkEditOperationWarnings = (
+  operation: BulkEditOperation
+): string[] => {
+  if (operation.action !== "set" && operation.action !== "append") return [];
+  return validateCSVContent(operation.value.trim()).warnings;
+};
+
+/**
+ * Sanitizes the text an operation writes, for operations the server applies
+ * to rows that were not previewed
+ * @param operation - Operation to send
+ * @returns Operation with a formula-safe value
+ */
+export const sanitizeBulkEditOperation = (
+  operation: BulkEditOperation
+): BulkEditOperation => {
+  if (operation.action !== "set" && operation.action !== "append") {
+    return operation;
+  }
+  return { ...operation, value: sanitizeCSVValue(operation.value.trim()) };
+};
+
+/**
+ * Previews the operations on each row: the fields that change and the
+ * column rules the new values break
+ * @param rows - Selected rows
+ * @param operations - Operations, applied in order
+ * @returns One preview per row that changes
+ */
+export const previewBulkEdit = (
+  rows: CSVRow[],
+  operations: BulkEditOperation[]
+): BulkEditRowPreview[] => {
+  const previews: BulkEditRowPreview[] = [];
+
+  rows.forEach((row) => {
+    const updated: Partial<CSVRow> = { ...row };
+    const errors: Partial<Record<keyof CSVRow, string>> = {};
+
+    operations.forEach((operation) => {
+      const value = applyOperation(updated[operation.field], operation);
+      if (value === undefined) {
+        const label = BULK_EDIT_FIELDS.find(
+          (item) => item.field === operation.field
+        )?.label;
+        errors[operation.field] = `${label} is not a number`;
+      } else {
+        Object.assign(updated, { [operation.field]: value });
+      }
+    });
+
+    const changes = operations
+      .map((operation) => operation.field)
+      .filter((field, index, fields) => fields.indexOf(field) === index)
+      .filter(
+        (field) => String(row[field] ?? "") !== String(updated[field] ?? "")
+      )
+      .map((field) => ({ field, from: row[field], to: updated[field] }));
+    if (changes.length === 0 && Object.keys(errors).length === 0) return;
+
+    // Only the changed fields are checked, so rows that were already invalid
+    // can still be edited
+    const ruleErrors = validateRowValues(updated);
+    changes.forEach(({ field }) => {
+      if (ruleErrors[field]) errors[field] = ruleErrors[field];
+    });
+
+    previews.push({ row, changes, errors });
+  });
+
+  return previews;
+};
+
+/**
+ * Picks the changed fields of a previewed row, as sent to the server
+ * @param preview - Row preview
+ * @returns Changed fields with their new values
+ */
+export const getBulkEditData = (
+  preview: BulkEditRowPreview
+): Partial<CSVRow> => {
+  return preview.changes.reduce(
+    (data, change) => ({ ...data, [change.field]: change.to }),
+    {} as Partial<CSVRow>
+  );
+};
+
+/**
+ * Picks the values the changed fields of a previewed row had, to undo the
+ * change; fields without a value are cleared
+ * @param preview - Row preview
+ * @returns Changed fields with their previous values
+ */
+export const getBulkEditPreviousData = (
+  preview: BulkEditRowPreview
+): Partial<CSVRow> => {
+  return preview.changes.reduce(
+    (data, change) => ({ ...data, [change.field]: change.from ?? null }),
+    {} as Partial<CSVRow>
+  );
+};
@@ -0,0 +1,146 @@
+/**
+ * Column Validation Rules
+ * Declarative per-column rules (type, range, length, format, allowed values)
+ * used to validate uploaded rows and rows edited in the data grid
+ */
+
+import { CSVRow } from "../services/api";
+
+export type ColumnType = "text" | "integer" | "decimal";
+
+export interface ColumnRule {
+  // Header name as used in CSV files
+  header: string;
+  // Matching field of a stored row
+  field: keyof CSVRow;
+  type: ColumnType;
+  required?: boolean;
+  // Inclusive range for numeric columns
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  // Shown when the value does not match the pattern
+  patternMessage?: string;
+  // Case-insensitive list of accepted values
+  allowedValues?: string[];
+}
+
+export const COLUMN_RULES: ColumnRule[] = [
+  {
+    header: "PartMark",
+    field: "part_mark",
+    type: "text",
+    required: true,
+    maxLength: 100,
+  },
+  {
+    header: "AssemblyMark",
+    field: "assembly_mark",
+    type: "text",
+    required: true,
+    maxLength: 100,
+  },
+  {
+    header: "Material",
+    field: "material",
+    type: "text",
+    required: true,
+    maxLength: 100,
+  },
+  // Thickness is text, as drawings write it with units or a profile prefix
+  // (10mm, PL10)
+  {
+    header: "Thickness",
+    field: "thickness",
+    type: "text",
+    required: true,
+    maxLength: 50,
+  },
+  { header: "Quantity", field: "quantity", type: "integer", min: 1 },
+  { header: "Length", field: "length", type: "decimal", min: 0 },
+  { header: "Width", field: "width", type: "decimal", min: 0 },
+  { header: "Height", field: "height", type: "decimal", min: 0 },
+  { header: "Weight", field: "weight", type: "decimal", min: 0 },
+  { header: "Notes", field: "notes", type: "text", maxLength: 1000 },
+];
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const DECIMAL_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+// A number followed by a unit, e.g. "12mm" or "3.5 kg"
+const NUMBER_WITH_UNIT_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)\s*[a-z]+$/i;
+
+/**
+ * Checks a single value against the rule of its column
+ * @param rule - The column rule
+ * @param value - The raw or stored value
+ * @returns Error message, or null when the value is valid
+ */
+export const validateColumnValue = (
+  rule: ColumnRule,
+  value: unknown
+): string | null => {
+  const text =
+    value === null || value === undefined ? "" : String(value).trim();
+
+  if (text === "") {
+    return rule.required ? `${rule.header} is required` : null;
+  }
+
+  if (rule.type === "integer" || rule.type === "decimal") {
+    const pattern = rule.type === "integer" ? INTEGER_PATTERN : DECIMAL_PATTERN;
+    if (!pattern.test(text)) {
+      if (NUMBER_WITH_UNIT_PATTERN.test(text)) {
+        return `${rule.header} must be a number without units`;
+      }
+      return rule.type === "integer"
+        ? `${rule.header} must be a whole number`
+        : `${rule.header} must be a number`;
+    }
+
+    const number = Number(text);
+    if (rule.min !== undefined && number < rule.min) {
+      return `${rule.header} must be at least ${rule.min}`;
+    }
+    if (rule.max !== undefined && number > rule.max) {
+      return `${rule.header} must be at most ${rule.max}`;
+    }
+  }
+
+  if (rule.maxLength !== undefined && text.length > rule.maxLength) {
+    return `${rule.header} must be at most ${rule.maxLength} characters`;
+  }
+
+  if (rule.pattern && !rule.pattern.test(text)) {
+    return rule.patternMessage || `${rule.header} has an invalid format`;
+  }
+
+  if (
+    rule.allowedValues &&
+    !rule.allowedValues.some(
+      (allowed) => allowed.toLowerCase() === text.toLowerCase()
+    )
+  ) {
+    return `${rule.header} must be one of: ${rule.allowedValues.join(", ")}`;
+  }
+
+  return null;
+};
+
+/**
+ * Validates the fields of a stored row that has been edited
+ * @param row - The edited row data
+ * @returns Error message per invalid field
+ */
+export const validateRowValues = (
+  row: Partial<CSVRow>
+): Partial<Record<keyof CSVRow, string>> => {
+  const errors: Partial<Record<keyof CSVRow, string>> = {};
+  COLUMN_RULES.forEach((rule) => {
+    const error = validateColumnValue(rule, row[rule.field]);
+    if (error) {
+      errors[rule.field] = error;
+    }
+  });
+  return errors;
+};
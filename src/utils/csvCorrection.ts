@@ -0,0 +1,140 @@
+/**
+ * CSV Correction Utilities
+ * Loads the rows of a file for fixing in the browser before upload and writes
+ * the corrected rows back out as a CSV file
+ */
+
+import { CSVRecord, formatCSVRecord } from "./csvParser";
+import {
+  CellValidationError,
+  getColumnRule,
+  validateCSVDataRows,
+} from "./headerValidation";
+
+export interface EditableRow {
+  // Source line of the row, used to match validation errors
+  line: number;
+  // Raw field values in source column order
+  fields: string[];
+  removed: boolean;
+}
+
+/**
+ * Turns a parsed data record into a row for editing; files are read in the
+ * validation worker, so large files do not block the page
+ * @param record - Parsed data record
+ * @param headers - Source headers of the file
+ * @returns Row with one value per header
+ */
+export const toEditableRow = (
+  record: CSVRecord,
+  headers: string[]
+): EditableRow => ({
+  line: record.line,
+  fields: headers.map((_, index) => record.fields[index] ?? ""),
+  removed: false,
+});
+
+/**
+ * Validates the rows that have not been removed against the column rules
+ * @param rows - Rows being edited
+ * @param headers - Header of each column after column mapping ("" when ignored)
+ * @returns Cell errors, with rowNumber set to the row's source line
+ */
+export const validateEditableRows = (
+  rows: EditableRow[],
+  headers: string[]
+): CellValidationError[] => {
+  const keptRows = rows.filter((row) => !row.removed);
+  const data = keptRows.map((row) => {
+    const record: Record<string, any> = {};
+    headers.forEach((header, index) => {
+      if (header) {
+        record[header] = (row.fields[index] ?? "").trim();
+      }
+    });
+    return record;
+  });
+
+  return validateCSVDataRows(
+    data,
+    headers,
+    keptRows.map((row) => row.line)
+  ).cellErrors;
+};
+
+/**
+ * Finds the column holding the field named in a validation error
+ * @param headers - Header of each column after column mapping
+ * @param field - Field name from the error
+ * @returns Column index or -1
+ */
+export const findFieldColumn = (headers: string[], field: string): number => {
+  return headers.findIndex((header) => getColumnRule(header)?.header === field);
+};
+
+/**
+ * Compares a row with the same row in the file
+ * @param originalRow - Row as parsed from the file
+ * @param row - Edited row
+ * @returns "removed", "edited" for a kept row with changed values, or null
+ */
+export const getRowChange = (
+  originalRow: EditableRow | undefined,
+  row: EditableRow
+): "edited" | "removed" | null => {
+  if (row.removed) {
+    return "removed";
+  }
+  return row.fields.some(
+    (value, column) => value !== originalRow?.fields[column]
+  )
+    ? "edited"
+    : null;
+};
+
+/**
+ * Counts the rows changed compared to the file
+ * @param originalRows - Rows as parsed from the file
+ * @param rows - Edited rows, in the same order
+ * @returns Number of edited (and kept) rows and of removed rows
+ */
+export const countRowChanges = (
+  originalRows: EditableRow[],
+  rows: EditableRow[]
+): { edited: number; removed: number } => {
+  let edited = 0;
+  let removed = 0;
+  rows.forEach((row, index) => {
+    const change = getRowChange(originalRows[index], row);
+    if (change === "removed") {
+      removed++;
+    } else if (change === "edited") {
+      edited++;
+    }
+  });
+  return { edited, removed };
+};
+
+/**
+ * Writes the edited rows to a new UTF-8 CSV file, leaving out removed rows
+ * @param name - File name to use
+ * @param headers - Source headers, written unchanged as the header row
+ * @param rows - Edited rows
+ * @param delimiter - Field delimiter of the original file
+ * @returns The corrected file
+ */
+export const createCorrectedFile = (
+  name: string,
+  headers: string[],
+  rows: EditableRow[],
+  delimiter: string
+): File => {
+  const lines = [
+    formatCSVRecord(headers, delimiter),
+    ...rows
+      .filter((row) => !row.removed)
+      .map((row) => formatCSVRecord(row.fields, delimiter)),
+  ];
+  return new File([lines.join("\r\n") + "\r\n"], name, { type: "text/csv" });
+};
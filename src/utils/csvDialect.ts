@@ -0,0 +1,205 @@
+/**
+ * CSV Dialect Detection
+ * Sniffs the delimiter and text encoding of uploaded files so that exports
+ * from European Excel installs, tab-separated files and legacy Windows-1252
+ * files are parsed the same way the backend will ingest them
+ */
+
+import { createCSVParser, CSVRecord } from "./csvParser";
+
+export type CSVDelimiter = "," | ";" | "\t" | "|";
+
+export type CSVEncoding =
+  | "utf-8"
+  | "utf-8-bom"
+  | "utf-16le"
+  | "utf-16be"
+  | "windows-1252";
+
+export interface CSVDialect {
+  delimiter: CSVDelimiter;
+  encoding: CSVEncoding;
+}
+
+export const DELIMITER_OPTIONS: Array<{ value: CSVDelimiter; label: string }> =
+  [
+    { value: ",", label: "Comma (,)" },
+    { value: ";", label: "Semicolon (;)" },
+    { value: "\t", label: "Tab" },
+    { value: "|", label: "Pipe (|)" },
+  ];
+
+export const ENCODING_OPTIONS: Array<{ value: CSVEncoding; label: string }> = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-8-bom", label: "UTF-8 with BOM" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+  { value: "windows-1252", label: "Windows-1252" },
+];
+
+export const DEFAULT_DIALECT: CSVDialect = {
+  delimiter: ",",
+  encoding: "utf-8",
+};
+
+// Number of bytes read from the start of a file to detect its dialect
+const SNIFF_SIZE = 64 * 1024;
+
+// Number of records inspected when scoring delimiter candidates
+const SNIFF_RECORDS = 20;
+
+/**
+ * Maps an encoding to the label understood by TextDecoder
+ * @param encoding - The CSV encoding
+ * @returns TextDecoder label
+ */
+export const getDecoderLabel = (encoding: CSVEncoding): string => {
+  return encoding === "utf-8-bom" ? "utf-8" : encoding;
+};
+
+/**
+ * Gets a display label for a delimiter
+ * @param delimiter - The delimiter
+ * @returns Human readable label
+ */
+export const getDelimiterLabel = (delimiter: CSVDelimiter): string => {
+  return (
+    DELIMITER_OPTIONS.find((option) => option.value === delimiter)?.label ||
+    delimiter
+  );
+};
+
+/**
+ * Gets a display label for an encoding
+ * @param encoding - The encoding
+ * @returns Human readable label
+ */
+export const getEncodingLabel = (encoding: CSVEncoding): string => {
+  return (
+    ENCODING_OPTIONS.find((option) => option.value === encoding)?.label ||
+    encoding
+  );
+};
+
+/**
+ * Detects the text encoding of a file from its first bytes
+ * @param bytes - Bytes from the start of the file
+ * @returns Detected encoding
+ */
+export const detectEncoding = (bytes: Uint8Array): CSVEncoding => {
+  // Byte order marks
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8-bom";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return "utf-16le";
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return "utf-16be";
+  }
+
+  // UTF-16 without a BOM: ASCII text leaves every other byte as zero
+  let evenZeros = 0;
+  let oddZeros = 0;
+  const pairs = Math.floor(Math.min(bytes.length, 1024) / 2);
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+  if (pairs > 0 && oddZeros / pairs > 0.4 && evenZeros / pairs < 0.1) {
+    return "utf-16le";
+  }
+  if (pairs > 0 && evenZeros / pairs > 0.4 && oddZeros / pairs < 0.1) {
+    return "utf-16be";
+  }
+
+  // Valid UTF-8 (streaming mode tolerates a character cut off by the sample)
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+};
+
+/**
+ * Detects the delimiter of CSV text by checking which candidate produces the
+ * most consistent number of fields per record
+ * @param text - Sample text from the start of the file
+ * @param isComplete - Whether the sample holds the whole file, in which case
+ * the final record is scored even without a trailing line break
+ * @returns Detected delimiter (comma when nothing better is found)
+ */
+export const detectDelimiter = (
+  text: string,
+  isComplete: boolean = false
+): CSVDelimiter => {
+  let best: { delimiter: CSVDelimiter; score: number; fields: number } = {
+    delimiter: DEFAULT_DIALECT.delimiter,
+    score: 0,
+    fields: 1,
+  };
+
+  for (const { value: delimiter } of DELIMITER_OPTIONS) {
+    const parser = createCSVParser({ delimiter });
+    // A partial sample may end mid-record, so only complete records are scored
+    const records: CSVRecord[] = [
+      ...parser.push(text),
+      ...(isComplete ? parser.end() : []),
+    ].slice(0, SNIFF_RECORDS);
+    if (records.length === 0) continue;
+
+    // Most common field count across the sampled records
+    const counts = new Map<number, number>();
+    for (const record of records) {
+      const count = record.fields.length;
+      counts.set(count, (counts.get(count) || 0) + 1);
+    }
+    let modeFields = 1;
+    let modeFrequency = 0;
+    counts.forEach((frequency, fields) => {
+      if (
+        frequency > modeFrequency ||
+        (frequency === modeFrequency && fields > modeFields)
+      ) {
+        modeFields = fields;
+        modeFrequency = frequency;
+      }
+    });
+
+    if (modeFields < 2) continue;
+
+    const score = modeFrequency / records.length;
+    if (
+      score > best.score ||
+      (score === best.score && modeFields > best.fields)
+    ) {
+      best = { delimiter, score, fields: modeFields };
+    }
+  }
+
+  return best.delimiter;
+};
+
+/**
+ * Reads the start of a file and detects its encoding and delimiter
+ * @param file - The file to inspect
+ * @returns Detected dialect and the decoded sample text
+ */
+export const sniffCSVDialect = async (
+  file: File
+): Promise<{ dialect: CSVDialect; sample: string }> => {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_SIZE).arrayBuffer());
+  const encoding = detectEncoding(bytes);
+  const sample = new TextDecoder(getDecoderLabel(encoding)).decode(bytes, {
+    stream: true,
+  });
+
+  return {
+    dialect: {
+      delimiter: detectDelimiter(sample, file.size <= SNIFF_SIZE),
+      encoding,
+    },
+    sample,
+  };
+};
@@ -0,0 +1,279 @@
+/**
+ * CSV Parser
+ * RFC 4180 compliant tokenizer with support for quoted fields, escaped quotes,
+ * embedded line breaks, CRLF/CR/LF line endings, byte order marks and
+ * incremental (chunked) input
+ */
+
+export const DEFAULT_DELIMITER = ",";
+
+const QUOTE = '"';
+const BOM = "\uFEFF";
+
+export interface CSVParseError {
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface CSVRecord {
+  fields: string[];
+  // 1-based line on which the record starts
+  line: number;
+  // 1-based column on which each field starts
+  columns: number[];
+}
+
+export interface CSVParserOptions {
+  delimiter?: string;
+}
+
+export interface CSVParser {
+  push: (chunk: string) => CSVRecord[];
+  end: () => CSVRecord[];
+  errors: CSVParseError[];
+}
+
+type ParserState = "fieldStart" | "unquoted" | "quoted" | "quoteInQuoted";
+
+/**
+ * Creates an incremental CSV parser. Text can be fed in arbitrary chunks via
+ * `push`; completed records are returned as soon as their line ends.
+ * @param options - Parser options (delimiter defaults to a comma)
+ * @returns Parser with push/end methods and the list of errors found so far
+ */
+export const createCSVParser = (options: CSVParserOptions = {}): CSVParser => {
+  const delimiter = options.delimiter || DEFAULT_DELIMITER;
+  const errors: CSVParseError[] = [];
+
+  let state: ParserState = "fieldStart";
+  let field = "";
+  let fields: string[] = [];
+  let columns: number[] = [];
+  let fieldQuoted = false;
+  let recordLine = 1;
+  let quoteLine = 1;
+  let quoteColumn = 1;
+  let line = 1;
+  let column = 1;
+  let isFirstChunk = true;
+  let skipNextLineFeed = false;
+
+  const startField = () => {
+    columns.push(column);
+    field = "";
+    fieldQuoted = false;
+  };
+
+  const endField = () => {
+    fields.push(field);
+    field = "";
+  };
+
+  const endRecord = (records: CSVRecord[]) => {
+    endField();
+
+    // Blank lines (a single unquoted field that is empty or only whitespace)
+    // are not records
+    const isBlank =
+      fields.length === 1 && fields[0].trim() === "" && !fieldQuoted;
+    if (!isBlank) {
+      records.push({ fields, line: recordLine, columns });
+    }
+
+    fields = [];
+    columns = [];
+    fieldQuoted = false;
+    state = "fieldStart";
+  };
+
+  const push = (chunk: string): CSVRecord[] => {
+    const records: CSVRecord[] = [];
+    let text = chunk;
+
+    if (isFirstChunk && text.length > 0) {
+      if (text.startsWith(BOM)) {
+        text = text.slice(1);
+      }
+      isFirstChunk = false;
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // Second half of a CRLF pair (possibly split across chunks) belongs to
+      // the line break that was already counted
+      if (skipNextLineFeed) {
+        skipNextLineFeed = false;
+        if (char === "\n") {
+          if (state === "quoted") {
+            field += char;
+          }
+          continue;
+        }
+      }
+
+      const isLineBreak = char === "\n" || char === "\r";
+
+      switch (state) {
+        case "fieldStart":
+          startField();
+          if (char === QUOTE) {
+            fieldQuoted = true;
+            quoteLine = line;
+            quoteColumn = column;
+            state = "quoted";
+          } else if (char === delimiter) {
+            endField();
+          } else if (isLineBreak) {
+            endRecord(records);
+          } else {
+            field += char;
+            state = "unquoted";
+          }
+          break;
+
+        case "unquoted":
+          if (char === delimiter) {
+            endField();
+            state = "fieldStart";
+          } else if (isLineBreak) {
+            endRecord(records);
+          } else {
+            if (char === QUOTE) {
+              errors.push({
+                line,
+                column,
+                message: "Unexpected quote in unquoted field",
+              });
+            }
+            field += char;
+          }
+          break;
+
+        case "quoted":
+          if (char === QUOTE) {
+            state = "quoteInQuoted";
+          } else {
+            field += char;
+          }
+          break;
+
+        case "quoteInQuoted":
+          if (char === QUOTE) {
+            // Escaped quote ("")
+            field += QUOTE;
+            state = "quoted";
+          } else if (char === delimiter) {
+            endField();
+            state = "fieldStart";
+          } else if (isLineBreak) {
+            endRecord(records);
+          } else {
+            errors.push({
+              line,
+              column,
+              message: `Unexpected character '${char}' after closing quote`,
+            });
+            field += char;
+            state = "unquoted";
+          }
+          break;
+      }
+
+      // Advance position tracking (line breaks inside quoted fields count too)
+      if (isLineBreak) {
+        if (char === "\r") {
+          skipNextLineFeed = true;
+        }
+        line++;
+        column = 1;
+        if (state === "fieldStart" && fields.length === 0) {
+          recordLine = line;
+        }
+      } else {
+        column++;
+      }
+    }
+
+    return records;
+  };
+
+  const end = (): CSVRecord[] => {
+    const records: CSVRecord[] = [];
+
+    if (state === "quoted") {
+      errors.push({
+        line: quoteLine,
+        column: quoteColumn,
+        message: "Unterminated quoted field",
+      });
+    }
+
+    // Flush the final record when the input does not end with a line break
+    if (state !== "fieldStart" || fields.length > 0) {
+      if (state === "fieldStart") {
+        startField();
+      }
+      endRecord(records);
+    }
+
+    return records;
+  };
+
+  return { push, end, errors };
+};
+
+/**
+ * Parses a complete CSV document into records
+ * @param csvText - The CSV text content
+ * @param options - Parser options
+ * @returns Parsed records and any syntax errors with their positions
+ */
+export const parseCSVRecords = (
+  csvText: string,
+  options: CSVParserOptions = {}
+): {
+  records: CSVRecord[];
+  errors: CSVParseError[];
+} => {
+  const parser = createCSVParser(options);
+  const records = [...parser.push(csvText), ...parser.end()];
+  return { records, errors: parser.errors };
+};
+
+/**
+ * Formats a parse error for display
+ * @param error - The parse error
+ * @returns Message prefixed with the line and column of the error
+ */
+export const formatCSVParseError = (error: CSVParseError): string => {
+  return `Line ${error.line}, column ${error.column}: ${error.message}`;
+};
+
+/**
+ * Formats fields as a single CSV line, quoting fields only where the parser
+ * needs it. Values are written as-is (no formula sanitizing) so the output
+ * parses back to the same fields.
+ * @param fields - The field values
+ * @param delimiter - Field delimiter (defaults to comma)
+ * @returns CSV-formatted line without a line terminator
+ */
+export const formatCSVRecord = (
+  fields: string[],
+  delimiter: string = DEFAULT_DELIMITER
+): string => {
+  return fields
+    .map((field) => {
+      if (
+        field.includes(delimiter) ||
+        field.includes('"') ||
+        field.includes("\n") ||
+        field.includes("\r")
+      ) {
+        return `"${field.replace(/"/g, '""')}"`;
+      }
+      return field;
+    })
+    .join(delimiter);
+};
@@ -0,0 +1,186 @@
+/**
+ * Duplicate Part Detection
+ * Finds part marks used by more than one row and the attributes those rows
+ * disagree on, both in stored data and in files being uploaded
+ */
+
+import { CSVRow } from "../services/api";
+import { getColumnRule } from "./headerValidation";
+
+// Attributes that must match for rows sharing a part mark to be cut the same
+export const CONFLICT_FIELDS: (keyof CSVRow)[] = [
+  "material",
+  "thickness",
+  "length",
+  "width",
+  "height",
+  "weight",
+];
+
+export interface IncomingDuplicate {
+  part_mark: string;
+  // File line numbers of the rows using the part mark
+  lines: number[];
+  assembly_marks: string[];
+  conflicting_fields: (keyof CSVRow)[];
+}
+
+export interface DatasetDuplicate {
+  part_mark: string;
+  // Stored rows the file's rows would duplicate
+  rows: CSVRow[];
+}
+
+/**
+ * Normalizes a part or assembly mark for comparison
+ * @param value - The mark as entered
+ * @returns Trimmed, lower-cased mark
+ */
+export const normalizeMark = (value: unknown): string =>
+  String(value ?? "")
+    .trim()
+    .toLowerCase();
+
+// Numbers compare by value (so 10 and 10.0 match), text case-insensitively
+const normalizeValue = (value: unknown): string => {
+  const text = String(value ?? "").trim();
+  const number = Number(text);
+  return text !== "" && !isNaN(number) ? String(number) : text.toLowerCase();
+};
+
+/**
+ * Lists the attributes that differ between rows sharing a part mark
+ * @param rows - Rows with the same part mark
+ * @returns Conflicting fields, in CONFLICT_FIELDS order
+ */
+export const findConflictingFields = (
+  rows: Partial<CSVRow>[]
+): (keyof CSVRow)[] => {
+  return CONFLICT_FIELDS.filter(
+    (field) => new Set(rows.map((row) => normalizeValue(row[field]))).size > 1
+  );
+};
+
+interface TrackedPart {
+  part_mark: string;
+  // Every spelling of the part mark used in the file
+  spellings: Set<string>;
+  lines: number[];
+  assemblies: Map<string, string>;
+  values: Map<keyof CSVRow, Set<string>>;
+}
+
+/**
+ * Collects the part marks of a file row by row, so duplicates can be found
+ * while the file is streamed
+ * @param headers - Column headers of the file (after column mapping)
+ * @returns Tracker to add rows to and read the duplicates from
+ */
+export const createDuplicateTracker = (headers: string[]) => {
+  const fields = headers.map((header) =>
+    header ? getColumnRule(header)?.field : undefined
+  );
+  const parts = new Map<string, TrackedPart>();
+
+  const add = (row: Record<string, any>, line: number) => {
+    const values: Partial<Record<keyof CSVRow, unknown>> = {};
+    headers.forEach((header, index) => {
+      const field = fields[index];
+      if (field) {
+        values[field] = row[header];
+      }
+    });
+
+    const key = normalizeMark(values.part_mark);
+    if (!key) return;
+
+    let part = parts.get(key);
+    if (!part) {
+      part = {
+        part_mark: String(values.part_mark).trim(),
+        spellings: new Set(),
+        lines: [],
+        assemblies: new Map(),
+        values: new Map(),
+      };
+      parts.set(key, part);
+    }
+    part.spellings.add(String(values.part_mark).trim());
+    part.lines.push(line);
+    const assembly = String(values.assembly_mark ?? "").trim();
+    if (!part.assemblies.has(normalizeMark(assembly))) {
+      part.assemblies.set(normalizeMark(assembly), assembly);
+    }
+    CONFLICT_FIELDS.forEach((field) => {
+      if (!part!.values.has(field)) {
+        part!.values.set(field, new Set());
+      }
+      part!.values.get(field)!.add(normalizeValue(values[field]));
+    });
+  };
+
+  // Part marks used by more than one row of the file
+  const getDuplicates = (): IncomingDuplicate[] => {
+    return Array.from(parts.values())
+      .filter((part) => part.lines.length > 1)
+      .map((part) => ({
+        part_mark: part.part_mark,
+        lines: part.lines,
+        assembly_marks: Array.from(part.assemblies.values()),
+        conflicting_fields: CONFLICT_FIELDS.filter(
+          (field) => (part.values.get(field)?.size || 0) > 1
+        ),
+      }));
+  };
+
+  // Normalized assembly marks used with each normalized part mark
+  const getPartAssemblies = (): Record<string, string[]> => {
+    const partAssemblies: Record<string, string[]> = {};
+    parts.forEach((part, key) => {
+      partAssemblies[key] = Array.from(part.assemblies.keys());
+    });
+    return partAssemblies;
+  };
+
+  // Part marks of the file as written, each spelling once
+  const getPartMarks = (): string[] => {
+    return Array.from(parts.values()).flatMap((part) =>
+      Array.from(part.spellings)
+    );
+  };
+
+  return { add, getDuplicates, getPartAssemblies, getPartMarks };
+};
+
+/**
+ * Finds stored rows that would become duplicates of a file's rows once it is
+ * imported, i.e. rows with one of the file's part marks
+ * @param storedRows - Stored rows with the file's part marks
+ * @param partAssemblies - Assemblies per part mark of the file
+ * @param skipSameAssembly - Ignore rows under an assembly the file uses too,
+ * since an upsert updates those instead of adding a second row
+ * @returns Duplicates grouped by part mark
+ */
+export const findDatasetDuplicates = (
+  storedRows: CSVRow[],
+  partAssemblies: Record<string, string[]>,
+  skipSameAssembly: boolean
+): DatasetDuplicate[] => {
+  const groups = new Map<string, DatasetDuplicate>();
+  storedRows.forEach((row) => {
+    const key = normalizeMark(row.part_mark);
+    const assemblies = partAssemblies[key];
+    if (
+      !assemblies ||
+      (skipSameAssembly &&
+        assemblies.includes(normalizeMark(row.assembly_mark)))
+    ) {
+      return;
+    }
+    if (!groups.has(key)) {
+      groups.set(key, { part_mark: row.part_mark, rows: [] });
+    }
+    groups.get(key)!.rows.push(row);
+  });
+  return Array.from(groups.values());
+};
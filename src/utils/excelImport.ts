@@ -0,0 +1,139 @@
+/**
+ * Excel Import Utilities
+ * Reads .xlsx/.xls workbooks in the browser and converts the chosen sheet into
+ * CSV so it goes through the same header and row validation as CSV uploads
+ */
+
+import { formatCSVRecord } from "./csvParser";
+import { getColumnRule } from "./headerValidation";
+
+export const EXCEL_EXTENSIONS = [".xlsx", ".xls"];
+
+export const EXCEL_MIME_TYPES = [
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-excel",
+];
+
+// Number of rows searched for the header row
+const HEADER_SEARCH_ROWS = 20;
+
+export interface ExcelWorkbook {
+  file: File;
+  sheetNames: string[];
+  // Cell values of a sheet as text; index 0 is row 1 of the sheet
+  readSheet: (sheetName: string) => string[][];
+}
+
+/**
+ * Checks whether a file is an Excel workbook by its extension
+ * @param file - The selected file
+ * @returns True for .xlsx and .xls files
+ */
+export const isExcelFile = (file: File): boolean => {
+  const name = file.name.toLowerCase();
+  return EXCEL_EXTENSIONS.some((ext) => name.endsWith(ext));
+};
+
+const cellToText = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (typeof value === "number") {
+    // Excel shows 15 significant digits; avoids values like 0.30000000000000004
+    return String(Number(value.toPrecision(15)));
+  }
+  if (typeof value === "boolean") {
+    return value ? "TRUE" : "FALSE";
+  }
+  return String(value);
+};
+
+/**
+ * Reads a workbook. The spreadsheet library is loaded on first use so CSV-only
+ * users don't download it.
+ * @param file - The .xlsx or .xls file
+ * @returns Workbook with its sheet names and a reader for sheet rows
+ */
+export const readWorkbook = async (file: File): Promise<ExcelWorkbook> => {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+
+  const readSheet = (sheetName: string): string[][] => {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet || !sheet["!ref"]) {
+      return [];
+    }
+    // Start the range at A1 so row indexes match the sheet's row numbers
+    const range = XLSX.utils.decode_range(sheet["!ref"]);
+    range.s = { r: 0, c: 0 };
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      raw: true,
+      defval: "",
+      blankrows: true,
+      range,
+    });
+    return rows.map((row) => row.map(cellToText));
+  };
+
+  return { file, sheetNames: workbook.SheetNames, readSheet };
+};
+
+const isBlankRow = (row: string[]): boolean =>
+  row.every((value) => value.trim() === "");
+
+/**
+ * Finds the row holding the column headers, i.e. the row among the first few
+ * that names the most known columns
+ * @param rows - Sheet rows
+ * @returns 1-based row number (defaults to the first non-empty row)
+ */
+export const detectHeaderRow = (rows: string[][]): number => {
+  let bestRow = -1;
+  let bestScore = 0;
+
+  rows.slice(0, HEADER_SEARCH_ROWS).forEach((row, index) => {
+    const score = row.filter(
+      (value) => value.trim() && getColumnRule(value)
+    ).length;
+    if (score > bestScore) {
+      bestScore = score;
+      bestRow = index;
+    }
+  });
+
+  if (bestRow === -1) {
+    bestRow = rows.findIndex((row) => !isBlankRow(row));
+  }
+  return Math.max(bestRow, 0) + 1;
+};
+
+/**
+ * Converts sheet rows to CSV text starting at the header row. Rows above the
+ * header and blank rows become empty lines, which CSV readers skip, so each
+ * line number of the CSV is the row number in the sheet
+ * @param rows - Sheet rows
+ * @param headerRow - 1-based row number of the header row
+ * @returns Comma-delimited CSV text
+ */
+export const sheetToCSVText = (rows: string[][], headerRow: number): string => {
+  return rows
+    .map((row, index) =>
+      index < headerRow - 1 || isBlankRow(row) ? "" : formatCSVRecord(row)
+    )
+    .join("\r\n");
+};
+
+/**
+ * Builds the file name used for the converted sheet
+ * @param fileName - Workbook file name
+ * @param sheetName - Name of the converted sheet
+ * @returns CSV file name, e.g. "cutlist (Sheet1).csv"
+ */
+export const getConvertedFileName = (
+  fileName: string,
+  sheetName: string
+): string => {
+  const baseName = fileName.replace(/\.(xlsx|xls)$/i, "");
+  return `${baseName} (${sheetName}).csv`;
+};
@@ -0,0 +1,55 @@
+/**
+ * Upload File Validation
+ * Size and type checks applied to files before they are read or validated
+ */
+
+import { EXCEL_EXTENSIONS, EXCEL_MIME_TYPES } from "./excelImport";
+
+// CSV Safety Constants
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
+const ALLOWED_MIME_TYPES = [
+  "text/csv",
+  "application/csv",
+  "text/plain",
+  ...EXCEL_MIME_TYPES,
+];
+export const ALLOWED_EXTENSIONS = [".csv", ...EXCEL_EXTENSIONS];
+
+/**
+ * Checks that a file is within the upload size limit
+ * @param file - The selected file
+ * @returns True when the file is small enough
+ */
+export const validateFileSize = (file: File): boolean => {
+  return file.size <= MAX_FILE_SIZE;
+};
+
+/**
+ * Checks that a file is a CSV or Excel file
+ * @param file - The selected file
+ * @returns True when the MIME type or the extension is allowed
+ */
+export const validateFileType = (file: File): boolean => {
+  // Check MIME type
+  const mimeValid = ALLOWED_MIME_TYPES.includes(file.type);
+
+  // Check file extension as fallback
+  const extensionValid = ALLOWED_EXTENSIONS.some((ext) =>
+    file.name.toLowerCase().endsWith(ext)
+  );
+
+  return mimeValid || extensionValid;
+};
+
+/**
+ * Formats a byte count for display
+ * @param bytes - Size in bytes
+ * @returns Size with unit, e.g. "1.5 MB"
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
@@ -0,0 +1,264 @@
+/**
+ * Grid Column Layout
+ * Columns of the data grid and each user's layout of them: display order,
+ * hidden columns, widths and columns pinned to the left or right edge
+ */
+
+export type DataColumnId =
+  | "id"
+  | "part_mark"
+  | "assembly_mark"
+  | "material"
+  | "thickness"
+  | "quantity"
+  | "length"
+  | "width"
+  | "height"
+  | "weight"
+  | "notes";
+
+export type GridColumnId = DataColumnId | "actions";
+
+// Columns stored as numbers; thickness is stored as text
+export const NUMBER_FIELDS: DataColumnId[] = [
+  "quantity",
+  "length",
+  "width",
+  "height",
+  "weight",
+];
+
+export type PinSide = "left" | "right";
+
+export interface GridColumn {
+  id: GridColumnId;
+  label: string;
+  // Default width in pixels
+  width: number;
+}
+
+export const GRID_COLUMNS: GridColumn[] = [
+  { id: "id", label: "id", width: 90 },
+  { id: "part_mark", label: "Part Mark", width: 160 },
+  { id: "assembly_mark", label: "Assembly Mark", width: 170 },
+  { id: "material", label: "Material", width: 140 },
+  { id: "thickness", label: "Thickness", width: 130 },
+  { id: "quantity", label: "Quantity", width: 140 },
+  { id: "length", label: "Length", width: 120 },
+  { id: "width", label: "Width", width: 120 },
+  { id: "height", label: "Height", width: 120 },
+  { id: "weight", label: "Weight", width: 120 },
+  { id: "notes", label: "Notes", width: 240 },
+  { id: "actions", label: "Actions", width: 180 },
+];
+
+// Width of the row selection column, which always comes first
+export const SELECT_COLUMN_WIDTH = 64;
+export const MIN_COLUMN_WIDTH = 60;
+export const MAX_COLUMN_WIDTH = 800;
+
+export interface ColumnLayout {
+  // Every column, in display order
+  order: GridColumnId[];
+  hidden: GridColumnId[];
+  // Widths set by resizing, in pixels
+  widths: Partial<Record<GridColumnId, number>>;
+  pinned: Partial<Record<GridColumnId, PinSide>>;
+}
+
+export const DEFAULT_COLUMN_LAYOUT: ColumnLayout = {
+  order: GRID_COLUMNS.map((column) => column.id),
+  hidden: [],
+  widths: {},
+  pinned: {},
+};
+
+// Visible column with its width and, when pinned, its distance from the
+// pinned edge
+export interface VisibleColumn extends GridColumn {
+  pinned?: PinSide;
+  offset: number;
+}
+
+/**
+ * Checks whether a value names a grid column
+ * @param value - Value to check
+ * @returns True for a known column id
+ */
+export const isGridColumnId = (value: unknown): value is GridColumnId => {
+  return GRID_COLUMNS.some((column) => column.id === value);
+};
+
+/**
+ * Keeps a width within the allowed range
+ * @param width - Width in pixels
+ * @returns Rounded width between the minimum and maximum
+ */
+export const clampColumnWidth = (width: number): number => {
+  return Math.min(
+    MAX_COLUMN_WIDTH,
+    Math.max(MIN_COLUMN_WIDTH, Math.round(width))
+  );
+};
+
+/**
+ * Completes a stored layout: unknown columns are dropped and columns added
+ * since it was saved are appended, so every column appears exactly once
+ * @param layout - Layout as stored, if any
+ * @returns Complete layout
+ */
+export const normalizeColumnLayout = (
+  layout?: Partial<ColumnLayout> | null
+): ColumnLayout => {
+  const order = Array.from(
+    new Set((layout?.order || []).filter(isGridColumnId))
+  );
+  GRID_COLUMNS.forEach((column) => {
+    if (!order.includes(column.id)) order.push(column.id);
+  });
+
+  const widths: ColumnLayout["widths"] = {};
+  const pinned: ColumnLayout["pinned"] = {};
+  GRID_COLUMNS.forEach(({ id }) => {
+    const width = layout?.widths?.[id];
+    if (typeof width === "number" && Number.isFinite(width)) {
+      widths[id] = clampColumnWidth(width);
+    }
+    const side = layout?.pinned?.[id];
+    if (side === "left" || side === "right") {
+      pinned[id] = side;
+    }
+  });
+
+  return {
+    order,
+    hidden: GRID_COLUMNS.map((column) => column.id).filter((id) =>
+      (layout?.hidden || []).includes(id)
+    ),
+    widths,
+    pinned,
+  };
+};
+
+/**
+ * Compares two layouts
+ * @param a - Column layout
+ * @param b - Column layout
+ * @returns True when both lay out the columns the same way
+ */
+export const isSameColumnLayout = (
+  a: ColumnLayout,
+  b: ColumnLayout
+): boolean => {
+  return (
+    JSON.stringify(normalizeColumnLayout(a)) ===
+    JSON.stringify(normalizeColumnLayout(b))
+  );
+};
+
+/**
+ * Lists the visible columns as displayed: columns pinned left, then the
+ * unpinned ones, then columns pinned right, each group in layout order
+ * @param layout - Column layout
+ * @returns Visible columns with widths and pinned offsets
+ */
+export const getVisibleColumns = (layout: ColumnLayout): VisibleColumn[] => {
+  const columns = layout.order
+    .filter((id) => !layout.hidden.includes(id))
+    .map((id) => {
+      const column = GRID_COLUMNS.find((item) => item.id === id)!;
+      return {
+        ...column,
+        width: layout.widths[id] || column.width,
+        pinned: layout.pinned[id],
+        offset: 0,
+      };
+    });
+
+  const left = columns.filter((column) => column.pinned === "left");
+  const right = columns.filter((column) => column.pinned === "right");
+  const unpinned = columns.filter((column) => !column.pinned);
+
+  // Left pinned columns sit after the selection column
+  let leftOffset = SELECT_COLUMN_WIDTH;
+  left.forEach((column) => {
+    column.offset = leftOffset;
+    leftOffset += column.width;
+  });
+  let rightOffset = 0;
+  [...right].reverse().forEach((column) => {
+    column.offset = rightOffset;
+    rightOffset += column.width;
+  });
+
+  return [...left, ...unpinned, ...right];
+};
+
+/**
+ * Moves a column to the place of another one
+ * @param layout - Column layout
+ * @param id - Column to move
+ * @param targetId - Column whose place it takes
+ * @returns Updated layout
+ */
+export const moveColumn = (
+  layout: ColumnLayout,
+  id: GridColumnId,
+  targetId: GridColumnId
+): ColumnLayout => {
+  const order = layout.order.filter((item) => item !== id);
+  const targetIndex = layout.order.indexOf(targetId);
+  if (id === targetId || targetIndex === -1) return layout;
+  order.splice(targetIndex, 0, id);
+  return { ...layout, order };
+};
+
+/**
+ * Shows or hides a column
+ * @param layout - Column layout
+ * @param id - Column to show or hide
+ * @param hidden - Whether the column is hidden
+ * @returns Updated layout
+ */
+export const setColumnHidden = (
+  layout: ColumnLayout,
+  id: GridColumnId,
+  hidden: boolean
+): ColumnLayout => ({
+  ...layout,
+  hidden: hidden
+    ? Array.from(new Set([...layout.hidden, id]))
+    : layout.hidden.filter((item) => item !== id),
+});
+
+/**
+ * Pins a column to one edge of the grid, or unpins it
+ * @param layout - Column layout
+ * @param id - Column to pin
+ * @param side - Edge to pin to, or null to unpin
+ * @returns Updated layout
+ */
+export const setColumnPin = (
+  layout: ColumnLayout,
+  id: GridColumnId,
+  side: PinSide | null
+): ColumnLayout => {
+  const { [id]: _, ...pinned } = layout.pinned;
+  return { ...layout, pinned: side ? { ...pinned, [id]: side } : pinned };
+};
+
+/**
+ * Sets the width of a column
+ * @param layout - Column layout
+ * @param id - Column to resize
+ * @param width - Width in pixels
+ * @returns Updated layout
+ */
+export const setColumnWidth = (
+  layout: ColumnLayout,
+  id: GridColumnId,
+  width: number
+): ColumnLayout => ({
+  ...layout,
+  widths: { ...layout.widths, [id]: clampColumnWidth(width) },
+});
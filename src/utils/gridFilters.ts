@@ -0,0 +1,210 @@
+/**
+ * Grid Filter Utilities
+ * Turns the per-column filter row and the structured search syntax
+ * (e.g. `material:S355 thickness>=10 assembly:A12*`) into filter conditions
+ * applied by the server
+ */
+
+import { CSVRow, FilterCondition, FilterOperator } from "../services/api";
+
+// Values of the column filter row, kept as typed
+export interface ColumnFilters {
+  part_mark: string;
+  assembly_mark: string;
+  // Comma-separated list of materials
+  materials: string;
+  thickness_min: string;
+  thickness_max: string;
+  quantity_operator: QuantityOperator;
+  quantity: string;
+  notes: string;
+  // YYYY-MM-DD, inclusive
+  updated_from: string;
+  updated_to: string;
+}
+
+export type QuantityOperator = "gt" | "gte" | "eq" | "lte" | "lt";
+
+export const EMPTY_COLUMN_FILTERS: ColumnFilters = {
+  part_mark: "",
+  assembly_mark: "",
+  materials: "",
+  thickness_min: "",
+  thickness_max: "",
+  quantity_operator: "gt",
+  quantity: "",
+  notes: "",
+  updated_from: "",
+  updated_to: "",
+};
+
+// Field names accepted in the search syntax, compared without case, spaces
+// or underscores
+const FIELD_ALIASES: Record<string, keyof CSVRow> = {
+  id: "id",
+  part: "part_mark",
+  partmark: "part_mark",
+  assembly: "assembly_mark",
+  assemblymark: "assembly_mark",
+  material: "material",
+  thickness: "thickness",
+  qty: "quantity",
+  quantity: "quantity",
+  length: "length",
+  width: "width",
+  height: "height",
+  weight: "weight",
+  notes: "notes",
+  note: "notes",
+  updated: "updated_at",
+  updatedat: "updated_at",
+  created: "created_at",
+  createdat: "created_at",
+  batch: "batch_id",
+  batchid: "batch_id",
+};
+
+// Free-text fields, where "field:value" matches a substring
+const CONTAINS_FIELDS: (keyof CSVRow)[] = ["notes"];
+
+const COMPARISON_OPERATORS: Record<string, FilterOperator> = {
+  ">": "gt",
+  ">=": "gte",
+  "<": "lt",
+  "<=": "lte",
+};
+
+export const OPERATOR_SYMBOLS: Record<FilterOperator, string> = {
+  eq: "=",
+  like: "matches",
+  contains: "contains",
+  in: "in",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+};
+
+const resolveField = (name: string): keyof CSVRow | undefined =>
+  FIELD_ALIASES[name.toLowerCase().replace(/[\s_]/g, "")];
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Splits on whitespace, keeping double-quoted parts (notes:"bent edge")
+const tokenize = (query: string): string[] =>
+  query.match(/(?:[^\s"]+|"[^"]*")+/g) || [];
+
+/**
+ * Parses the search box: `field:value` terms become filter conditions and
+ * everything else stays free text for the regular search
+ * @param query - Text typed in the search box
+ * @returns Free text and the parsed filter conditions
+ */
+export const parseSearchQuery = (
+  query: string
+): { text: string; conditions: FilterCondition[] } => {
+  const words: string[] = [];
+  const conditions: FilterCondition[] = [];
+
+  tokenize(query).forEach((token) => {
+    const match = token.match(/^([A-Za-z_]+)(>=|<=|>|<|:|=)(.+)$/);
+    const field = match ? resolveField(match[1]) : undefined;
+    if (!match || !field) {
+      words.push(token);
+      return;
+    }
+
+    const [, , symbol, rawValue] = match;
+    const value = rawValue.replace(/"/g, "").trim();
+    if (!value) {
+      words.push(token);
+      return;
+    }
+
+    if (COMPARISON_OPERATORS[symbol]) {
+      conditions.push({
+        field,
+        operator: COMPARISON_OPERATORS[symbol],
+        value,
+      });
+    } else if (value.includes(",")) {
+      conditions.push({ field, operator: "in", value: splitList(value) });
+    } else if (value.includes("*")) {
+      conditions.push({ field, operator: "like", value });
+    } else {
+      conditions.push({
+        field,
+        operator: CONTAINS_FIELDS.includes(field) ? "contains" : "eq",
+        value,
+      });
+    }
+  });
+
+  return { text: words.join(" "), conditions };
+};
+
+/**
+ * Converts the column filter row into filter conditions, skipping empty
+ * filters
+ * @param filters - Values of the column filter row
+ * @returns Filter conditions
+ */
+export const columnFiltersToConditions = (
+  filters: ColumnFilters
+): FilterCondition[] => {
+  const conditions: FilterCondition[] = [];
+  const add = (
+    field: keyof CSVRow,
+    operator: FilterOperator,
+    value: string | string[]
+  ) => {
+    if (Array.isArray(value) ? value.length > 0 : value.trim()) {
+      conditions.push({
+        field,
+        operator,
+        value: Array.isArray(value) ? value : value.trim(),
+      });
+    }
+  };
+
+  const textOperator = (value: string) => (value.includes("*") ? "like" : "eq");
+  add("part_mark", textOperator(filters.part_mark), filters.part_mark);
+  add(
+    "assembly_mark",
+    textOperator(filters.assembly_mark),
+    filters.assembly_mark
+  );
+  add("material", "in", splitList(filters.materials));
+  add("thickness", "gte", filters.thickness_min);
+  add("thickness", "lte", filters.thickness_max);
+  add("quantity", filters.quantity_operator, filters.quantity);
+  add("notes", "contains", filters.notes);
+  add("updated_at", "gte", filters.updated_from);
+  add("updated_at", "lte", filters.updated_to);
+  return conditions;
+};
+
+/**
+ * Checks whether any column filter is set
+ * @param filters - Values of the column filter row
+ * @returns True when at least one filter applies
+ */
+export const hasColumnFilters = (filters: ColumnFilters): boolean => {
+  return columnFiltersToConditions(filters).length > 0;
+};
+
+/**
+ * Describes a filter condition for display, e.g. "thickness ≥ 10"
+ * @param condition - Filter condition
+ * @returns Readable description
+ */
+export const describeCondition = (condition: FilterCondition): string => {
+  const value = Array.isArray(condition.value)
+    ? condition.value.join(", ")
+    : condition.value;
+  return `${condition.field} ${OPERATOR_SYMBOLS[condition.operator]} ${value}`;
+};
@@ -0,0 +1,184 @@
+/**
+ * Grid Paste Utilities
+ * Reading blocks of cells copied from a spreadsheet and previewing what
+ * pasting them into the data grid changes, starting at the active cell
+ */
+
+import { CSVRow } from "../services/api";
+import { BulkEditRowPreview } from "./bulkEdit";
+import { validateRowValues } from "./columnRules";
+import { validateCSVContent } from "./csvSafety";
+import { DataColumnId, GRID_COLUMNS, NUMBER_FIELDS } from "./gridColumns";
+
+const CELL_END = "\t\r\n";
+
+export interface PasteRowPreview extends BulkEditRowPreview {
+  // Formula or content warnings of the pasted text; such values are saved
+  // with a leading quote
+  warnings: string[];
+}
+
+export interface PastePreview {
+  rows: PasteRowPreview[];
+  // Cells falling outside the loaded rows and visible columns, or on the id
+  // column, which are not pasted
+  ignoredCells: number;
+}
+
+/**
+ * Reads a quoted cell, as spreadsheets write cells holding tabs, line breaks
+ * or quotes
+ * @param text - Pasted text
+ * @param start - Position of the opening quote
+ * @returns Cell value and the position after the closing quote, or null when
+ * the quote does not start a quoted cell (e.g. 12" pipe)
+ */
+const readQuotedCell = (
+  text: string,
+  start: number
+): { value: string; end: number } | null => {
+  let value = "";
+  let position = start + 1;
+
+  while (position < text.length) {
+    if (text[position] === '"') {
+      if (text[position + 1] === '"') {
+        value += '"';
+        position += 2;
+        continue;
+      }
+      position++;
+      return position === text.length || CELL_END.includes(text[position])
+        ? { value, end: position }
+        : null;
+    }
+    value += text[position];
+    position++;
+  }
+  return null;
+};
+
+/**
+ * Splits text copied from a spreadsheet into rows of cells: cells are
+ * separated by tabs and rows by line breaks
+ * @param text - Pasted text
+ * @returns Rows of cell values; empty when nothing was pasted
+ */
+export const parsePastedText = (text: string): string[][] => {
+  // Spreadsheets end the copied block with a line break
+  const input = text.replace(/(\r\n|\r|\n)$/, "");
+  if (input === "") return [];
+
+  const rows: string[][] = [];
+  let cells: string[] = [];
+  let position = 0;
+
+  while (true) {
+    const quoted =
+      input[position] === '"' ? readQuotedCell(input, position) : null;
+    let end = position;
+    if (quoted) {
+      end = quoted.end;
+      cells.push(quoted.value);
+    } else {
+      while (end < input.length && !CELL_END.includes(input[end])) end++;
+      cells.push(input.slice(position, end));
+    }
+
+    if (end >= input.length) {
+      rows.push(cells);
+      return rows;
+    }
+    if (input[end] === "\t") {
+      position = end + 1;
+    } else {
+      rows.push(cells);
+      cells = [];
+      position = end + (input.startsWith("\r\n", end) ? 2 : 1);
+    }
+  }
+};
+
+/**
+ * Previews pasting a block of cells: cells are mapped by position onto the
+ * rows and columns from the start cell on, and each changed value is checked
+ * against its column rule and for formula content
+ * @param rows - Rows of the grid, in display order
+ * @param fields - Visible columns, in display order
+ * @param startRow - Index of the row the block starts on
+ * @param startField - Index of the column the block starts on
+ * @param block - Pasted rows of cells
+ * @returns One preview per row that changes, and the number of cells ignored
+ */
+export const previewPaste = (
+  rows: CSVRow[],
+  fields: DataColumnId[],
+  startRow: number,
+  startField: number,
+  block: string[][]
+): PastePreview => {
+  const previews: PasteRowPreview[] = [];
+  let ignoredCells = 0;
+
+  block.forEach((cells, rowOffset) => {
+    const row = rows[startRow + rowOffset];
+    if (!row) {
+      ignoredCells += cells.length;
+      return;
+    }
+
+    const updated: Partial<CSVRow> = { ...row };
+    const changedFields: DataColumnId[] = [];
+    const warnings: string[] = [];
+
+    cells.forEach((cell, fieldOffset) => {
+      const field = fields[startField + fieldOffset];
+      if (!field || field === "id") {
+        ignoredCells++;
+        return;
+      }
+
+      const text = cell.trim();
+      // Numbers that do not parse keep their text, so the rule reports them
+      const value = NUMBER_FIELDS.includes(field)
+        ? text === ""
+          ? null
+          : Number.isFinite(Number(text))
+          ? Number(text)
+          : text
+        : text;
+      if (String(row[field] ?? "") === String(value ?? "")) return;
+
+      Object.assign(updated, { [field]: value });
+      changedFields.push(field);
+      if (!NUMBER_FIELDS.includes(field)) {
+        const label = GRID_COLUMNS.find((column) => column.id === field)?.label;
+        validateCSVContent(text).warnings.forEach((warning) =>
+          warnings.push(`${label}: ${warning}`)
+        );
+      }
+    });
+    if (changedFields.length === 0) return;
+
+    // Only the pasted fields are checked, so rows that were already invalid
+    // can still be fixed by pasting
+    const ruleErrors = validateRowValues(updated);
+    const errors: PasteRowPreview["errors"] = {};
+    changedFields.forEach((field) => {
+      if (ruleErrors[field]) errors[field] = ruleErrors[field];
+    });
+
+    previews.push({
+      row,
+      changes: changedFields.map((field) => ({
+        field,
+        from: row[field],
+        to: updated[field],
+      })),
+      errors,
+      warnings,
+    });
+  });
+
+  return { rows: previews, ignoredCells };
+};
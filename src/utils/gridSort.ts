@@ -0,0 +1,83 @@
+/**
+ * Grid Sort Utilities
+ * Reads, writes and updates the multi-column sort of the data grid, which is
+ * kept in the URL as e.g. "part_mark:asc,quantity:desc"
+ */
+
+import { CSVRow, SortColumn } from "../services/api";
+
+// Columns of the data grid the server can sort by
+export const SORTABLE_FIELDS: (keyof CSVRow)[] = [
+  "id",
+  "part_mark",
+  "assembly_mark",
+  "material",
+  "thickness",
+  "quantity",
+  "length",
+  "width",
+  "height",
+  "weight",
+  "notes",
+];
+
+/**
+ * Parses a sort parameter, skipping unknown fields and repeated columns
+ * @param value - Comma-separated "field:direction" pairs
+ * @returns Sort columns in priority order
+ */
+export const parseSortParam = (value: string | null): SortColumn[] => {
+  const sort: SortColumn[] = [];
+  (value || "").split(",").forEach((part) => {
+    const [field, direction] = part.trim().split(":");
+    if (
+      SORTABLE_FIELDS.includes(field as keyof CSVRow) &&
+      !sort.some((column) => column.field === field)
+    ) {
+      sort.push({
+        field: field as keyof CSVRow,
+        direction: direction === "desc" ? "desc" : "asc",
+      });
+    }
+  });
+  return sort;
+};
+
+/**
+ * Formats sort columns as a sort parameter
+ * @param sort - Sort columns in priority order
+ * @returns Comma-separated "field:direction" pairs, empty when unsorted
+ */
+export const formatSortParam = (sort: SortColumn[]): string => {
+  return sort.map(({ field, direction }) => `${field}:${direction}`).join(",");
+};
+
+/**
+ * Applies a click on a column header: ascending, then descending, then off.
+ * A plain click sorts by that column only; with multi (Shift+click) the other
+ * columns are kept and a new column is sorted after them
+ * @param sort - Current sort columns
+ * @param field - Clicked column
+ * @param multi - Whether to keep the other sort columns
+ * @returns Updated sort columns
+ */
+export const toggleSortColumn = (
+  sort: SortColumn[],
+  field: keyof CSVRow,
+  multi: boolean
+): SortColumn[] => {
+  const current = sort.find((column) => column.field === field);
+  const others = multi ? sort.filter((column) => column.field !== field) : [];
+
+  if (!current) {
+    return [...others, { field, direction: "asc" }];
+  }
+  if (current.direction === "asc") {
+    const next: SortColumn = { field, direction: "desc" };
+    // Keep the column's priority when sorting by several columns
+    return multi
+      ? sort.map((column) => (column.field === field ? next : column))
+      : [next];
+  }
+  return others;
+};
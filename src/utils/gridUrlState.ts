@@ -0,0 +1,192 @@
+/**
+ * Grid URL State
+ * Reads and writes the data grid's page, page size, display mode, search,
+ * sort, column filters and upload batch as URL query parameters, so links
+ * and browser history restore the exact view
+ */
+
+import { SavedViewState, SortColumn } from "../services/api";
+import { formatSortParam, parseSortParam } from "./gridSort";
+import {
+  ColumnFilters,
+  EMPTY_COLUMN_FILTERS,
+  QuantityOperator,
+} from "./gridFilters";
+import { GridColumnId, isGridColumnId } from "./gridColumns";
+
+export const DEFAULT_PAGE_SIZE = 40;
+export const MAX_PAGE_SIZE = 500;
+export const PAGE_SIZE_OPTIONS = [20, 40, 100, 200, 500];
+
+// Pages with Previous/Next, or one scrolling list loading more rows as it
+// is scrolled
+export type GridMode = "paged" | "scroll";
+
+export interface GridState {
+  page: number;
+  pageSize: number;
+  mode: GridMode;
+  search: string;
+  sort: SortColumn[];
+  columnFilters: ColumnFilters;
+  // Upload batch the grid is limited to
+  batchId?: number;
+}
+
+// Query parameter of each column filter
+const FILTER_PARAMS: Record<keyof ColumnFilters, string> = {
+  part_mark: "part",
+  assembly_mark: "assembly",
+  materials: "materials",
+  thickness_min: "thicknessMin",
+  thickness_max: "thicknessMax",
+  quantity_operator: "qtyOp",
+  quantity: "qty",
+  notes: "notes",
+  updated_from: "updatedFrom",
+  updated_to: "updatedTo",
+};
+
+const QUANTITY_OPERATORS: QuantityOperator[] = ["gt", "gte", "eq", "lte", "lt"];
+
+const parsePositiveInt = (value: string | null): number | undefined => {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : undefined;
+};
+
+/**
+ * Reads the grid state from query parameters, falling back to defaults for
+ * missing or invalid values
+ * @param params - Current query parameters
+ * @returns Grid state
+ */
+export const readGridState = (params: URLSearchParams): GridState => {
+  const columnFilters = { ...EMPTY_COLUMN_FILTERS };
+  (Object.keys(FILTER_PARAMS) as (keyof ColumnFilters)[]).forEach((key) => {
+    const value = params.get(FILTER_PARAMS[key]);
+    if (key === "quantity_operator") {
+      if (QUANTITY_OPERATORS.includes(value as QuantityOperator)) {
+        columnFilters.quantity_operator = value as QuantityOperator;
+      }
+    } else if (value) {
+      columnFilters[key] = value;
+    }
+  });
+
+  return {
+    page: parsePositiveInt(params.get("page")) || 1,
+    pageSize: Math.min(
+      parsePositiveInt(params.get("pageSize")) || DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE
+    ),
+    mode: params.get("mode") === "scroll" ? "scroll" : "paged",
+    search: params.get("search") || "",
+    sort: parseSortParam(params.get("sort")),
+    columnFilters,
+    batchId: parsePositiveInt(params.get("batch")),
+  };
+};
+
+/**
+ * Writes the grid state into query parameters, leaving out default values
+ * to keep links short; unrelated parameters are kept
+ * @param params - Current query parameters
+ * @param state - Grid state to write
+ * @returns New query parameters
+ */
+export const writeGridState = (
+  params: URLSearchParams,
+  state: GridState
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const set = (name: string, value: string, defaultValue: string = "") => {
+    if (value && value !== defaultValue) {
+      next.set(name, value);
+    } else {
+      next.delete(name);
+    }
+  };
+
+  set("page", String(state.page), "1");
+  set("pageSize", String(state.pageSize), String(DEFAULT_PAGE_SIZE));
+  set("mode", state.mode, "paged");
+  set("search", state.search);
+  set("sort", formatSortParam(state.sort));
+  (Object.keys(FILTER_PARAMS) as (keyof ColumnFilters)[]).forEach((key) => {
+    set(
+      FILTER_PARAMS[key],
+      state.columnFilters[key],
+      EMPTY_COLUMN_FILTERS[key]
+    );
+  });
+  set("batch", state.batchId ? String(state.batchId) : "");
+  return next;
+};
+
+/**
+ * Compares two sets of column filters
+ * @param a - Column filters
+ * @param b - Column filters
+ * @returns True when every filter value is the same
+ */
+export const areColumnFiltersEqual = (
+  a: ColumnFilters,
+  b: ColumnFilters
+): boolean => {
+  return (Object.keys(FILTER_PARAMS) as (keyof ColumnFilters)[]).every(
+    (key) => a[key] === b[key]
+  );
+};
+
+/**
+ * Picks the parts of the grid state a saved view keeps
+ * @param state - Grid state
+ * @param hiddenColumns - Columns hidden in the user's column layout
+ * @returns Saved view state
+ */
+export const getViewState = (
+  state: GridState,
+  hiddenColumns: GridColumnId[]
+): SavedViewState => ({
+  search: state.search,
+  sort: state.sort,
+  columnFilters: state.columnFilters,
+  pageSize: state.pageSize,
+  hiddenColumns,
+});
+
+/**
+ * Fills in defaults for a saved view state, e.g. one saved before a filter
+ * existed
+ * @param state - Saved view state as stored
+ * @returns Complete saved view state
+ */
+export const normalizeViewState = (
+  state: Partial<SavedViewState>
+): SavedViewState => ({
+  search: state.search || "",
+  sort: state.sort || [],
+  columnFilters: { ...EMPTY_COLUMN_FILTERS, ...state.columnFilters },
+  pageSize: state.pageSize || DEFAULT_PAGE_SIZE,
+  hiddenColumns: (state.hiddenColumns || []).filter(isGridColumnId),
+});
+
+/**
+ * Compares two saved view states
+ * @param a - Saved view state
+ * @param b - Saved view state
+ * @returns True when both show the same rows in the same way
+ */
+export const isSameViewState = (
+  a: SavedViewState,
+  b: SavedViewState
+): boolean => {
+  return (
+    a.search === b.search &&
+    a.pageSize === b.pageSize &&
+    formatSortParam(a.sort) === formatSortParam(b.sort) &&
+    areColumnFiltersEqual(a.columnFilters, b.columnFilters) &&
+    [...a.hiddenColumns].sort().join(",") ===
+      [...b.hiddenColumns].sort().join(",")
+  );
+};
@@ -3,6 +3,15 @@
  * Provides validation for required CSV headers and field enforcement
  */
 
+import {
+  CSVParseError,
+  CSVParserOptions,
+  CSVRecord,
+  formatCSVParseError,
+  parseCSVRecords,
+} from "./csvParser";
+import { COLUMN_RULES, ColumnRule, validateColumnValue } from "./columnRules";
+
 // Required headers that must be present in CSV files
 export const REQUIRED_HEADERS = [
   "PartMark",
@@ -258,109 +267,205 @@ export const fuzzyMatchHeader = (
   };
 };
 
+// Target header for each source column (by position); null ignores the column
+export type ColumnMapping = Array<{
+  source: string;
+  target: string | null;
+}>;
+
+export type ColumnMappingSuggestion = ColumnMapping[number] & {
+  confidence: number;
+};
+
 /**
- * Validates CSV data rows for empty required values
- * @param csvData - Array of CSV rows (objects with header keys)
- * @param headers - Array of header names
- * @returns Validation result with empty value details
+ * Suggests a target header for every source column using the alias table
+ * and fuzzy matching. Each target is only suggested once, for the column with
+ * the highest confidence.
+ * @param headers - Source header names from the CSV
+ * @returns Suggested mapping with a confidence for each column
  */
-export const validateCSVDataRows = (
-  csvData: Record<string, any>[],
+export const suggestColumnMapping = (
   headers: string[]
-): {
+): ColumnMappingSuggestion[] => {
+  const suggestions = headers.map((header): ColumnMappingSuggestion => {
+    if (!header.trim()) {
+      return { source: header, target: null, confidence: 0 };
+    }
+
+    const normalized = normalizeHeader(header);
+    if (REQUIRED_HEADERS.includes(normalized as RequiredHeader)) {
+      return { source: header, target: normalized, confidence: 1.0 };
+    }
+
+    const optionalMatch = OPTIONAL_HEADERS.find(
+      (optional) => optional.toLowerCase() === normalized.toLowerCase()
+    );
+    if (optionalMatch) {
+      return { source: header, target: optionalMatch, confidence: 1.0 };
+    }
+
+    const { suggestedHeader, confidence } = fuzzyMatchHeader(header);
+    return { source: header, target: suggestedHeader, confidence };
+  });
+
+  // Keep each target only on its best matching column
+  suggestions.forEach((suggestion, index) => {
+    if (!suggestion.target) return;
+    const better = suggestions.some(
+      (other, otherIndex) =>
+        otherIndex !== index &&
+        other.target === suggestion.target &&
+        (other.confidence > suggestion.confidence ||
+          (other.confidence === suggestion.confidence && otherIndex < index))
+    );
+    if (better) {
+      suggestions[index] = { ...suggestion, target: null, confidence: 0 };
+    }
+  });
+
+  return suggestions;
+};
+
+/**
+ * Applies a column mapping to the source headers
+ * @param headers - Source header names from the CSV
+ * @param mapping - Target header per source column
+ * @returns Effective header names; ignored columns become empty strings
+ */
+export const applyColumnMapping = (
+  headers: string[],
+  mapping?: ColumnMapping | null
+): string[] => {
+  if (!mapping) {
+    return headers;
+  }
+  return headers.map((_, index) => mapping[index]?.target ?? "");
+};
+
+/**
+ * Finds the validation rule for a header, accepting aliases and row field
+ * names (e.g. "part_mark")
+ * @param header - Header name from the CSV (after column mapping)
+ * @returns The column rule or undefined for unknown columns
+ */
+export const getColumnRule = (header: string): ColumnRule | undefined => {
+  const normalized = normalizeHeader(header).toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+  return COLUMN_RULES.find(
+    (rule) =>
+      rule.header.toLowerCase() === normalized || rule.field === normalized
+  );
+};
+
+export interface CellValidationError {
+  rowNumber: number;
+  // Header name of the column, as named in its rule
+  field: string;
+  value: any;
+  message: string;
+}
+
+export interface DataValidationResult {
   isValid: boolean;
-  emptyValueErrors: Array<{
-    rowNumber: number;
-    field: string;
-    value: any;
-  }>;
+  cellErrors: CellValidationError[];
   totalErrors: number;
   warnings: string[];
-} => {
-  const emptyValueErrors: Array<{
-    rowNumber: number;
-    field: string;
-    value: any;
-  }> = [];
-  const warnings: string[] = [];
+}
 
-  // Check each row
-  csvData.forEach((row, index) => {
-    const rowNumber = index + 2; // +2 because CSV rows start at 2 (1 is header)
-
-    // Check each required header
-    for (const required of REQUIRED_HEADERS) {
-      const headerIndex = headers.findIndex(
-        (h) => normalizeHeader(h) === required
-      );
-
-      if (headerIndex !== -1) {
-        const headerName = headers[headerIndex];
-        const value = row[headerName];
-
-        // Check if value is empty, null, undefined, or just whitespace
-        if (
-          value === null ||
-          value === undefined ||
-          String(value).trim() === ""
-        ) {
-          emptyValueErrors.push({
-            rowNumber,
-            field: required,
-            value: value,
-          });
-        }
-      }
-    }
-  });
+/**
+ * Builds a data validation result from a list of cell errors. Used to
+ * combine the results of validating a file in several batches of rows.
+ * @param cellErrors - All cell errors found
+ * @returns Validation result with totals and warnings
+ */
+export const summarizeCellErrors = (
+  cellErrors: CellValidationError[]
+): DataValidationResult => {
+  const warnings: string[] = [];
 
   // Generate warnings
-  if (emptyValueErrors.length > 0) {
-    warnings.push(
-      `${emptyValueErrors.length} empty required value(s) found in data rows`
-    );
+  if (cellErrors.length > 0) {
+    warnings.push(`${cellErrors.length} invalid value(s) found in data rows`);
   }
 
   return {
-    isValid: emptyValueErrors.length === 0,
-    emptyValueErrors,
-    totalErrors: emptyValueErrors.length,
+    isValid: cellErrors.length === 0,
+    cellErrors,
+    totalErrors: cellErrors.length,
     warnings,
   };
 };
 
 /**
- * Creates a detailed error message for empty required values
- * @param emptyValueErrors - Array of empty value errors
+ * Validates CSV data rows against the column rules (required values, types,
+ * ranges and formats)
+ * @param csvData - Array of CSV rows (objects with header keys)
+ * @param headers - Array of header names
+ * @param lineNumbers - Optional source line of each row (as returned by
+ * parseCSVData); defaults to one line per row after the header
+ * @returns Validation result with an error per invalid cell
+ */
+export const validateCSVDataRows = (
+  csvData: Record<string, any>[],
+  headers: string[],
+  lineNumbers?: number[]
+): DataValidationResult => {
+  const cellErrors: CellValidationError[] = [];
+
+  // Resolve the rule of each column once for all rows
+  const columns = headers
+    .map((header) => ({ header, rule: getColumnRule(header) }))
+    .filter(
+      (column): column is { header: string; rule: ColumnRule } => !!column.rule
+    );
+
+  // Check each row
+  csvData.forEach((row, index) => {
+    // Fall back to +2 because CSV rows start at 2 (1 is header)
+    const rowNumber = lineNumbers?.[index] ?? index + 2;
+
+    for (const { header, rule } of columns) {
+      const value = row[header];
+      const message = validateColumnValue(rule, value);
+      if (message) {
+        cellErrors.push({
+          rowNumber,
+          field: rule.header,
+          value,
+          message,
+        });
+      }
+    }
+  });
+
+  return summarizeCellErrors(cellErrors);
+};
+
+/**
+ * Creates a detailed error message for invalid cell values
+ * @param cellErrors - Array of cell errors
  * @returns Formatted error message
  */
-export const createEmptyValuesMessage = (
-  emptyValueErrors: Array<{
-    rowNumber: number;
-    field: string;
-    value: any;
-  }>
+export const createCellErrorsMessage = (
+  cellErrors: CellValidationError[]
 ): string => {
-  if (emptyValueErrors.length === 0) {
+  if (cellErrors.length === 0) {
     return "";
   }
 
   // Group errors by row number for better readability
-  const errorsByRow = emptyValueErrors.reduce((acc, error) => {
+  const errorsByRow = cellErrors.reduce((acc, error) => {
     if (!acc[error.rowNumber]) {
       acc[error.rowNumber] = [];
     }
-    acc[error.rowNumber].push(error.field);
+    acc[error.rowNumber].push(error.message);
     return acc;
   }, {} as Record<number, string[]>);
 
   const errorMessages = Object.entries(errorsByRow).map(
-    ([rowNumber, fields]) => {
-      if (fields.length === 1) {
-        return `Row ${rowNumber}: Missing ${fields[0]}`;
-      }
-      return `Row ${rowNumber}: Missing ${fields.join(", ")}`;
-    }
+    ([rowNumber, messages]) => `Row ${rowNumber}: ${messages.join(", ")}`
   );
 
   if (errorMessages.length <= 3) {
@@ -372,52 +477,111 @@ export const createEmptyValuesMessage = (
   } more row(s)`;
 };
 
+/**
+ * Creates an error message for CSV syntax errors
+ * @param parseErrors - Formatted parse errors as returned by parseCSVData
+ * @returns Formatted error message listing the first few errors
+ */
+export const createParseErrorsMessage = (parseErrors: string[]): string => {
+  if (parseErrors.length <= 3) {
+    return parseErrors.join("; ");
+  }
+
+  return `${parseErrors.slice(0, 3).join("; ")} and ${
+    parseErrors.length - 3
+  } more error(s)`;
+};
+
+/**
+ * Extracts header names from the first CSV record, dropping trailing empty
+ * columns produced by trailing delimiters
+ * @param record - The header record
+ * @returns Array of trimmed header names
+ */
+export const extractHeaders = (record: CSVRecord): string[] => {
+  const headers = record.fields.map((header) => header.trim());
+  while (headers.length > 0 && headers[headers.length - 1] === "") {
+    headers.pop();
+  }
+  return headers;
+};
+
+/**
+ * Converts a parsed CSV record into a row object keyed by header name
+ * @param record - The parsed data record
+ * @param headers - The header names
+ * @returns Row object and an error when the record has too many fields
+ */
+export const recordToRow = (
+  record: CSVRecord,
+  headers: string[]
+): {
+  row: Record<string, any>;
+  error: CSVParseError | null;
+} => {
+  const row: Record<string, any> = {};
+  headers.forEach((header, index) => {
+    row[header] = (record.fields[index] ?? "").trim();
+  });
+
+  // Extra fields are only tolerated when empty (trailing delimiters)
+  const extraIndex = record.fields.findIndex(
+    (value, index) => index >= headers.length && value.trim() !== ""
+  );
+  if (extraIndex !== -1) {
+    return {
+      row,
+      error: {
+        line: record.line,
+        column: record.columns[extraIndex] ?? 1,
+        message: `Expected ${headers.length} fields but found ${record.fields.length}`,
+      },
+    };
+  }
+
+  return { row, error: null };
+};
+
 /**
  * Parses CSV data from text content
  * @param csvText - The CSV text content
- * @returns Object with headers and data rows
+ * @param options - Parser options such as the delimiter
+ * @returns Object with headers, data rows, the source line of each row and
+ * any parse errors (prefixed with line/column positions)
  */
 export const parseCSVData = (
-  csvText: string
+  csvText: string,
+  options: CSVParserOptions = {}
 ): {
   headers: string[];
   data: Record<string, any>[];
+  lineNumbers: number[];
   errors: string[];
 } => {
-  const errors: string[] = [];
-  const lines = csvText.split("\n").filter((line) => line.trim() !== "");
+  const { records, errors: parseErrors } = parseCSVRecords(csvText, options);
 
-  if (lines.length < 2) {
+  if (records.length < 2) {
+    const errors = parseErrors.map(formatCSVParseError);
     errors.push("CSV file must contain at least a header row and one data row");
-    return { headers: [], data: [], errors };
+    return { headers: [], data: [], lineNumbers: [], errors };
   }
 
-  // Parse headers
-  const headerLine = lines[0].trim();
-  const headers = headerLine
-    .split(",")
-    .map((header) => header.trim().replace(/^["']|["']$/g, ""));
+  const headers = extractHeaders(records[0]);
 
-  // Parse data rows
   const data: Record<string, any>[] = [];
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (line === "") continue; // Skip empty lines
-
-    const values = line.split(",").map((value) => {
-      const trimmed = value.trim();
-      // Remove quotes if present
-      return trimmed.replace(/^["']|["']$/g, "");
-    });
-
-    // Create row object
-    const row: Record<string, any> = {};
-    headers.forEach((header, index) => {
-      row[header] = values[index] || "";
-    });
-
+  const lineNumbers: number[] = [];
+  for (const record of records.slice(1)) {
+    const { row, error } = recordToRow(record, headers);
+    if (error) {
+      parseErrors.push(error);
+    }
     data.push(row);
+    lineNumbers.push(record.line);
   }
 
-  return { headers, data, errors };
+  const errors = [...parseErrors]
+    .sort((a, b) => a.line - b.line || a.column - b.column)
+    .map(formatCSVParseError);
+
+  return { headers, data, lineNumbers, errors };
 };
@@ -0,0 +1,72 @@
+/**
+ * Mapping Profile Utilities
+ * Converts between per-file column mappings and saved mapping profiles, which
+ * are keyed by source header name so they can be reused across files
+ */
+
+import { MappingProfile } from "../services/api";
+import { ColumnMapping } from "./headerValidation";
+
+const profileKey = (header: string): string => header.trim().toLowerCase();
+
+/**
+ * Builds the signature used to recognise files from the same source system
+ * @param headers - Source header names from the CSV
+ * @returns Sorted, lower-cased, non-empty header names joined by "|"
+ */
+export const getHeaderSignature = (headers: string[]): string => {
+  return headers.map(profileKey).filter(Boolean).sort().join("|");
+};
+
+/**
+ * Converts a column mapping into the profile format
+ * @param mapping - Target header per source column
+ * @returns Target header keyed by lower-cased source header
+ */
+export const columnMappingToProfileMapping = (
+  mapping: ColumnMapping
+): Record<string, string | null> => {
+  const profileMapping: Record<string, string | null> = {};
+  mapping.forEach(({ source, target }) => {
+    const key = profileKey(source);
+    if (key) {
+      profileMapping[key] = target;
+    }
+  });
+  return profileMapping;
+};
+
+/**
+ * Applies a saved profile to the headers of a file
+ * @param profile - The mapping profile
+ * @param headers - Source header names from the CSV
+ * @returns Column mapping; headers unknown to the profile are ignored
+ */
+export const profileToColumnMapping = (
+  profile: MappingProfile,
+  headers: string[]
+): ColumnMapping => {
+  return headers.map((source) => ({
+    source,
+    target: profile.mapping[profileKey(source)] ?? null,
+  }));
+};
+
+/**
+ * Finds the profile created from files with the same set of headers
+ * @param profiles - Available mapping profiles
+ * @param headers - Source header names from the CSV
+ * @returns Matching profile or null
+ */
+export const findMatchingProfile = (
+  profiles: MappingProfile[],
+  headers: string[]
+): MappingProfile | null => {
+  const signature = getHeaderSignature(headers);
+  if (!signature) {
+    return null;
+  }
+  return (
+    profiles.find((profile) => profile.header_signature === signature) || null
+  );
+};
@@ -0,0 +1,50 @@
+import { CSVDialect } from "../utils/csvDialect";
+import { IncomingDuplicate } from "../utils/duplicates";
+import { EditableRow } from "../utils/csvCorrection";
+import {
+  ColumnMapping,
+  DataValidationResult,
+  validateRequiredHeaders,
+} from "../utils/headerValidation";
+
+// Messages sent from the main thread to the validation worker: validating a
+// file, or reading all its rows for fixing invalid values
+export type CSVValidationRequest =
+  | {
+      type: "validate";
+      file: File;
+      dialect: CSVDialect;
+      mapping?: ColumnMapping;
+    }
+  | { type: "readRows"; file: File; dialect: CSVDialect };
+
+export interface CSVValidationProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsScanned: number;
+  errorCount: number;
+}
+
+export interface CSVValidationResult {
+  // Source headers as they appear in the file (before any column mapping)
+  headers: string[];
+  // Raw fields of the first few data rows
+  previewRows: string[][];
+  rowCount: number;
+  parseErrors: string[];
+  headerValidation: ReturnType<typeof validateRequiredHeaders>;
+  dataValidation: DataValidationResult;
+  // Part marks used by more than one row of the file
+  duplicates: IncomingDuplicate[];
+  // Normalized assembly marks used with each normalized part mark
+  partAssemblies: Record<string, string[]>;
+  // Part marks of the file as written, for looking up stored rows
+  partMarks: string[];
+}
+
+// Messages sent from the validation worker back to the main thread
+export type CSVValidationResponse =
+  | { type: "progress"; progress: CSVValidationProgress }
+  | { type: "done"; result: CSVValidationResult }
+  | { type: "rows"; headers: string[]; rows: EditableRow[] }
+  | { type: "error"; message: string };
@@ -0,0 +1,217 @@
+/**
+ * CSV Validation Worker
+ * Streams an uploaded file in chunks, parses it and runs the header and
+ * required-value validation off the main thread, reporting progress as it goes
+ */
+
+import {
+  createCSVParser,
+  CSVParseError,
+  CSVRecord,
+  formatCSVParseError,
+} from "../utils/csvParser";
+import { CSVDialect, getDecoderLabel } from "../utils/csvDialect";
+import {
+  applyColumnMapping,
+  ColumnMapping,
+  CellValidationError,
+  extractHeaders,
+  recordToRow,
+  summarizeCellErrors,
+  validateCSVDataRows,
+  validateRequiredHeaders,
+} from "../utils/headerValidation";
+import { createDuplicateTracker } from "../utils/duplicates";
+import { EditableRow, toEditableRow } from "../utils/csvCorrection";
+import {
+  CSVValidationRequest,
+  CSVValidationResponse,
+  CSVValidationResult,
+} from "./csvValidation.types";
+
+const CHUNK_SIZE = 256 * 1024; // 256KB per read
+
+const ctx = self as unknown as Worker;
+
+const post = (message: CSVValidationResponse) => {
+  ctx.postMessage(message);
+};
+
+// Number of raw data rows returned for display in the column mapping step
+const PREVIEW_ROWS = 3;
+
+const validateFile = async (
+  file: File,
+  dialect: CSVDialect,
+  mapping?: ColumnMapping
+): Promise<CSVValidationResult> => {
+  const parser = createCSVParser({ delimiter: dialect.delimiter });
+  const decoder = new TextDecoder(getDecoderLabel(dialect.encoding));
+  const rowErrors: CSVParseError[] = [];
+  const cellErrors: CellValidationError[] = [];
+  const previewRows: string[][] = [];
+
+  let sourceHeaders: string[] | null = null;
+  let headers: string[] = [];
+  let headerValidation = validateRequiredHeaders([]);
+  let duplicateTracker = createDuplicateTracker([]);
+  let rowCount = 0;
+
+  const collectErrors = () =>
+    [...parser.errors, ...rowErrors]
+      .sort((a, b) => a.line - b.line || a.column - b.column)
+      .map(formatCSVParseError);
+
+  const buildResult = (): CSVValidationResult => {
+    const parseErrors = collectErrors();
+    if (!sourceHeaders || (headerValidation.isValid && rowCount === 0)) {
+      parseErrors.push(
+        "CSV file must contain at least a header row and one data row"
+      );
+    }
+    return {
+      headers: sourceHeaders || [],
+      previewRows,
+      rowCount,
+      parseErrors,
+      headerValidation,
+      dataValidation: summarizeCellErrors(cellErrors),
+      duplicates: duplicateTracker.getDuplicates(),
+      partAssemblies: duplicateTracker.getPartAssemblies(),
+      partMarks: duplicateTracker.getPartMarks(),
+    };
+  };
+
+  // Returns false when validation cannot continue (missing headers)
+  const processRecords = (records: CSVRecord[]): boolean => {
+    let dataRecords = records;
+
+    if (!sourceHeaders) {
+      if (records.length === 0) return true;
+      sourceHeaders = extractHeaders(records[0]);
+      headers = applyColumnMapping(sourceHeaders, mapping);
+      // Ignored columns are not part of the mapped header set
+      headerValidation = validateRequiredHeaders(
+        mapping ? headers.filter(Boolean) : headers
+      );
+      duplicateTracker = createDuplicateTracker(headers);
+      dataRecords = records.slice(1);
+    }
+
+    if (previewRows.length < PREVIEW_ROWS) {
+      dataRecords
+        .slice(0, PREVIEW_ROWS - previewRows.length)
+        .forEach((record) => previewRows.push(record.fields));
+    }
+
+    if (!headerValidation.isValid) return false;
+
+    const rows: Record<string, any>[] = [];
+    const lineNumbers: number[] = [];
+    for (const record of dataRecords) {
+      const { row, error } = recordToRow(record, headers);
+      if (error) {
+        rowErrors.push(error);
+      }
+      rows.push(row);
+      lineNumbers.push(record.line);
+      duplicateTracker.add(row, record.line);
+    }
+
+    const { cellErrors: batchErrors } = validateCSVDataRows(
+      rows,
+      headers,
+      lineNumbers
+    );
+    cellErrors.push(...batchErrors);
+    rowCount += rows.length;
+    return true;
+  };
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const buffer = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    const text = decoder.decode(buffer, { stream: true });
+
+    if (!processRecords(parser.push(text))) {
+      return buildResult();
+    }
+
+    post({
+      type: "progress",
+      progress: {
+        bytesRead: Math.min(offset + CHUNK_SIZE, file.size),
+        totalBytes: file.size,
+        rowsScanned: rowCount,
+        errorCount: parser.errors.length + rowErrors.length + cellErrors.length,
+      },
+    });
+  }
+
+  processRecords(parser.push(decoder.decode()));
+  processRecords(parser.end());
+
+  return buildResult();
+};
+
+// Streams the file like validation does and returns every data row, for
+// fixing invalid values before upload
+const readRows = async (
+  file: File,
+  dialect: CSVDialect
+): Promise<{ headers: string[]; rows: EditableRow[] }> => {
+  const parser = createCSVParser({ delimiter: dialect.delimiter });
+  const decoder = new TextDecoder(getDecoderLabel(dialect.encoding));
+  const rows: EditableRow[] = [];
+  let headers: string[] | null = null;
+
+  const addRecords = (records: CSVRecord[]) => {
+    records.forEach((record) => {
+      if (!headers) {
+        headers = extractHeaders(record);
+      } else {
+        rows.push(toEditableRow(record, headers));
+      }
+    });
+  };
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const buffer = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    addRecords(parser.push(decoder.decode(buffer, { stream: true })));
+
+    post({
+      type: "progress",
+      progress: {
+        bytesRead: Math.min(offset + CHUNK_SIZE, file.size),
+        totalBytes: file.size,
+        rowsScanned: rows.length,
+        errorCount: 0,
+      },
+    });
+  }
+
+  addRecords(parser.push(decoder.decode()));
+  addRecords(parser.end());
+
+  return { headers: headers || [], rows };
+};
+
+ctx.onmessage = async (event: MessageEvent<CSVValidationRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === "validate") {
+      const { file, dialect, mapping } = request;
+      const result = await validateFile(file, dialect, mapping);
+      post({ type: "done", result });
+    } else if (request.type === "readRows") {
+      const { headers, rows } = await readRows(request.file, request.dialect);
+      post({ type: "rows", headers, rows });
+    }
+  } catch (error) {
+    post({
+      type: "error",
+      message:
+        error instanceof Error ? error.message : "Failed to validate CSV file",
+    });
+  }
+};